@@ -1,18 +1,33 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import { format, subYears } from 'date-fns';
+import { TornadoChart } from '../components/tornado-chart';
 import { coinGeckoApi } from '../lib/api/coingecko';
 import { defiLlamaApi, YieldPool } from '../lib/api/defillama';
-import { calculateStakingRewards, getCompoundingFrequency } from '../lib/calculators';
-import { getStakingConstraints, isValidStakeAmount, isValidStakeDuration } from '../lib/staking_constraints';
+import { BacktestComparison, fetchBacktestComparison } from '../lib/backtest';
+import { CalendarPeriod, CompoundingMode, calculateStakingRewards, getCompoundingFrequency, StakingResult } from '../lib/calculators';
+import { calculateImpermanentLoss, getPoolImpermanentLossParameters, ImpermanentLossResult } from '../lib/impermanent_loss';
+import { createIssuanceAprSchedule, getIssuanceModel, projectAprAtStakedRatio, StakedRatioProjection } from '../lib/issuance';
+import { createRankablePlatform, rankPlatforms } from '../lib/platform_ranking';
+import { projectFiatScenarios, ScenarioAnalysis } from '../lib/price_scenarios';
+import { getRealYieldForCoin, RealYieldResult } from '../lib/real_yield';
+import { getRiskAdjustedRewardsForCoin, RiskAdjustedResult } from '../lib/risk';
+import { analyzeSensitivity, createDefaultSensitivityRanges, SensitivityInput, SensitivityRanges, SensitivityResult } from '../lib/sensitivity';
+import { getAssetDecimals, getEpochLength, getLockupDays, getStakingConstraints, isValidStakeAmount, isValidStakeDuration } from '../lib/staking_constraints';
+import { getStaticPlatformYieldRate, normalizeYieldRate, YieldRate } from '../lib/yield_rate';
 import stakingData from '../lib/staking_data.json'; // Fallback veri olarak kullanılacak
 
 // Tip tanımlamaları
 interface Platform {
   name: string;
-  apr: number;
+  yieldRate: YieldRate;  // Kaynağın yayımladığı oran (APR / APY türüyle)
   chain?: string;
   tvlUsd?: number;
+  score?: number;         // Risk ayarlı net getiri puanı (0-100)
+  scoreSummary?: string;  // Puanın özeti
+  pool?: YieldPool;       // DefiLlama poolu (geçici kayıp hesabı için)
+  poolId?: string;        // DefiLlama pool kimliği (geçmiş veri için)
 }
 
 interface CoinData {
@@ -24,6 +39,16 @@ interface CoinData {
   platforms: Platform[];
 }
 
+// Statik verideki oranları türleriyle birlikte platformlara dönüştür
+const staticCoinData: CoinData[] = stakingData.map(coin => ({
+  name: coin.name,
+  symbol: coin.symbol,
+  platforms: coin.platforms.map(platform => ({
+    name: platform.name,
+    yieldRate: getStaticPlatformYieldRate(platform)
+  }))
+}));
+
 export default function StakingCalculatorPage() {
   // State değişkenleri
   const [coins, setCoins] = useState<CoinData[]>([]);
@@ -31,11 +56,25 @@ export default function StakingCalculatorPage() {
   const [amount, setAmount] = useState<string>('');
   const [duration, setDuration] = useState<string>('365'); // Varsayılan 1 yıl
   const [calculatedReward, setCalculatedReward] = useState<number | null>(null);
+  const [stakingResult, setStakingResult] = useState<StakingResult | null>(null);
+  const [scenarioAnalysis, setScenarioAnalysis] = useState<ScenarioAnalysis | null>(null);
+  const [realYield, setRealYield] = useState<RealYieldResult | null>(null);
+  const [riskAdjusted, setRiskAdjusted] = useState<RiskAdjustedResult | null>(null);
+  const [impermanentLoss, setImpermanentLoss] = useState<ImpermanentLossResult[] | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+  const [sensitivityRanges, setSensitivityRanges] = useState<Partial<Record<SensitivityInput, { low: string; high: string }>>>({});
+  const [backtestStart, setBacktestStart] = useState<string>(() => format(subYears(new Date(), 1), 'yyyy-MM-dd'));
+  const [backtestEnd, setBacktestEnd] = useState<string>(() => format(new Date(), 'yyyy-MM-dd'));
+  const [backtest, setBacktest] = useState<BacktestComparison | null>(null);
+  const [isBacktesting, setIsBacktesting] = useState<boolean>(false);
+  const [targetStakedRatio, setTargetStakedRatio] = useState<string>('');
+  const [issuanceProjection, setIssuanceProjection] = useState<StakedRatioProjection | null>(null);
   const [selectedCoinPlatforms, setSelectedCoinPlatforms] = useState<Platform[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [useCompound, setUseCompound] = useState<boolean>(false);
-  const [compoundFrequency, setCompoundFrequency] = useState<'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually'>('daily');
+  const [compoundFrequency, setCompoundFrequency] = useState<CalendarPeriod | 'epoch' | 'continuous'>('daily');
+  const [useCalendar, setUseCalendar] = useState<boolean>(false);
   const [selectedPlatformIndex, setSelectedPlatformIndex] = useState<number>(0);
   const [coinPrices, setCoinPrices] = useState<{[symbol: string]: number}>({});
   const [currency, setCurrency] = useState<string>('usd');
@@ -56,12 +95,19 @@ export default function StakingCalculatorPage() {
             // DefiLlama'dan platformları al
             const platforms = await defiLlamaApi.getStakingPlatforms(symbol);
             
+            // Platformları ham APY yerine risk ayarlı net getiriye göre sırala
+            const rankedPlatforms = rankPlatforms(platforms.map(pool => createRankablePlatform(pool, symbol)));
+            
             // Platform verilerini dönüştür
-            const formattedPlatforms: Platform[] = platforms.map(platform => ({
-              name: platform.project,
-              apr: platform.apy,
+            const formattedPlatforms: Platform[] = rankedPlatforms.map(({ platform, score, summary }) => ({
+              name: platform.name,
+              yieldRate: platform.yieldRate,
               chain: platform.chain,
-              tvlUsd: platform.tvlUsd
+              tvlUsd: platform.tvlUsd,
+              score,
+              scoreSummary: summary,
+              pool: platforms.find(pool => pool.pool === platform.poolId),
+              poolId: platform.poolId
             }));
             
             return {
@@ -86,7 +132,7 @@ export default function StakingCalculatorPage() {
         // API'den veri alınamadıysa statik verileri kullan
         const finalCoinData = validCoinData.length > 0 
           ? validCoinData 
-          : stakingData as CoinData[];
+          : staticCoinData;
         
         setCoins(finalCoinData);
         
@@ -103,9 +149,9 @@ export default function StakingCalculatorPage() {
         setErrorMessage('Veri yüklenirken bir hata oluştu. Lütfen daha sonra tekrar deneyin.');
         
         // Fallback olarak statik verileri kullan
-        setCoins(stakingData as CoinData[]);
-        if (stakingData.length > 0 && !selectedCoinSymbol) {
-          setSelectedCoinSymbol((stakingData as CoinData[])[0].symbol);
+        setCoins(staticCoinData);
+        if (staticCoinData.length > 0 && !selectedCoinSymbol) {
+          setSelectedCoinSymbol(staticCoinData[0].symbol);
         }
       } finally {
         setIsLoading(false);
@@ -166,6 +212,15 @@ export default function StakingCalculatorPage() {
       }
       // Reset reward when coin changes
       setCalculatedReward(null);
+      setStakingResult(null);
+      setScenarioAnalysis(null);
+      setRealYield(null);
+      setRiskAdjusted(null);
+      setImpermanentLoss(null);
+      setSensitivity(null);
+      setSensitivityRanges({});
+      setIssuanceProjection(null);
+      setBacktest(null);
     }
   }, [selectedCoinSymbol, coins]);
 
@@ -190,10 +245,46 @@ export default function StakingCalculatorPage() {
     setCompoundFrequency(event.target.value as any);
   };
 
+  const handleCalendarToggle = () => {
+    setUseCalendar(!useCalendar);
+  };
+
   const handlePlatformChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedPlatformIndex(parseInt(event.target.value));
   };
 
+  // Seçilen platformda geçmiş bir tarihte stake edilseydi ne kazanılacağını hesapla
+  const runHistoricalBacktest = async () => {
+    const amountValue = parseFloat(amount);
+    const startDate = new Date(backtestStart);
+    const endDate = new Date(backtestEnd);
+    const platform = selectedCoinPlatforms[selectedPlatformIndex];
+    
+    if (isNaN(amountValue) || amountValue <= 0) {
+      setErrorMessage("Lütfen geçerli bir miktar girin.");
+      return;
+    }
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate >= endDate) {
+      setErrorMessage("Başlangıç tarihi bitiş tarihinden önce olmalıdır.");
+      return;
+    }
+    if (!platform?.poolId) {
+      setErrorMessage("Seçilen platform için geçmiş APY verisi bulunmuyor.");
+      return;
+    }
+    
+    setIsBacktesting(true);
+    setErrorMessage(null);
+    try {
+      setBacktest(await fetchBacktestComparison(selectedCoinSymbol, platform.poolId, amountValue, startDate, endDate, currency));
+    } catch (error) {
+      console.error('Error running backtest:', error);
+      setErrorMessage('Geçmiş veriler alınırken bir hata oluştu. Lütfen daha sonra tekrar deneyin.');
+    } finally {
+      setIsBacktesting(false);
+    }
+  };
+  
   // Ödül hesaplama
   const calculateReward = () => {
     if (!selectedCoinSymbol || !amount || !duration) {
@@ -243,12 +334,38 @@ export default function StakingCalculatorPage() {
       return;
     }
     
-    // Hesaplama parametrelerini hazırla
+    // Sürekli bileşik dışındaki döngüler gerçek takvim sınırlarına göre de hesaplanabilir
+    const compoundingMode: CompoundingMode = compoundFrequency === 'continuous'
+      ? 'continuous'
+      : useCalendar && compoundFrequency !== 'epoch' ? 'calendar' : 'periodic';
+    
+    // Stake oranı değişirse protokol APR'ı da değişir; platform APR'ı aynı oranda ölçeklenir
+    const platformApr = normalizeYieldRate(platform.yieldRate).apr; // APY yayımlayan kaynaklar önce APR'a çevrilir
+    const targetRatio = targetStakedRatio ? parseFloat(targetStakedRatio) / 100 : null;
+    if (targetRatio !== null && (isNaN(targetRatio) || targetRatio <= 0 || targetRatio > 1)) {
+      setErrorMessage("Stake oranı 0 ile 100 arasında olmalıdır.");
+      return;
+    }
+    const aprSchedule = targetRatio !== null
+      ? createIssuanceAprSchedule(selectedCoinSymbol, platformApr, targetRatio, durationValue) ?? undefined
+      : undefined;
+    setIssuanceProjection(
+      targetRatio !== null ? projectAprAtStakedRatio(selectedCoinSymbol, targetRatio, durationValue / 365) : null
+    );
+    
+    // Hesaplama parametrelerini hazırla (aktivasyon ve çözülme süreleri, varlığın ondalık basamağı dahil)
     const params = {
       principal: amountValue,
-      apr: platform.apr,
+      apr: platformApr,
+      aprSchedule,
       days: durationValue,
-      compoundingFrequency: getCompoundingFrequency(compoundFrequency)
+      compoundingFrequency: compoundFrequency === 'continuous'
+        ? 1
+        : getCompoundingFrequency(compoundFrequency, getEpochLength(selectedCoinSymbol)),
+      compoundingMode,
+      calendarPeriod: compoundFrequency !== 'epoch' && compoundFrequency !== 'continuous' ? compoundFrequency : undefined,
+      ...getLockupDays(selectedCoinSymbol),
+      decimals: getAssetDecimals(selectedCoinSymbol)
     };
     
     // Hesaplamayı yap
@@ -256,7 +373,41 @@ export default function StakingCalculatorPage() {
     
     // Sonucu kaydet
     setCalculatedReward(result.interest);
+    setStakingResult(result);
     setErrorMessage(null);
+    
+    // Fiyat bilgisi varsa ayı / baz / boğa senaryolarını hesapla
+    const currentPrice = coinPrices[selectedCoinSymbol];
+    setScenarioAnalysis(
+      currentPrice ? projectFiatScenarios(params, currentPrice, undefined, useCompound) : null
+    );
+    if (currentPrice) {
+      // Kullanıcının girdiği aralıklar; boş bırakılan uçlar varsayılan aralıkla doldurulur
+      const defaultRanges = createDefaultSensitivityRanges(params, currentPrice);
+      const ranges: SensitivityRanges = {};
+      for (const input of Object.keys(sensitivityRanges) as SensitivityInput[]) {
+        const low = parseFloat(sensitivityRanges[input]?.low ?? '');
+        const high = parseFloat(sensitivityRanges[input]?.high ?? '');
+        ranges[input] = {
+          low: isNaN(low) ? defaultRanges[input].low : low,
+          high: isNaN(high) ? defaultRanges[input].high : high
+        };
+      }
+      setSensitivity(analyzeSensitivity({ staking: params, currentPrice, useCompound, ranges }));
+    } else {
+      setSensitivity(null);
+    }
+    setRealYield(getRealYieldForCoin(selectedCoinSymbol, params, useCompound));
+    setRiskAdjusted(getRiskAdjustedRewardsForCoin(selectedCoinSymbol, platform.name, params, useCompound));
+    
+    // Çok varlıklı LP poollarında getiri, fiyat oranı değişimlerinde tutmaya göre kayba uğrayabilir
+    if (platform.pool && (platform.pool.ilRisk === 'yes' || platform.pool.exposure === 'multi')) {
+      setImpermanentLoss(calculateImpermanentLoss(
+        getPoolImpermanentLossParameters(platform.pool, amountValue, durationValue)
+      ));
+    } else {
+      setImpermanentLoss(null);
+    }
   };
 
   // Fiyat bilgisi bulunan coinler için dolar değerini göster
@@ -309,7 +460,8 @@ export default function StakingCalculatorPage() {
                 >
                   {selectedCoinPlatforms.map((platform, index) => (
                     <option key={`${platform.name}-${index}`} value={index}>
-                      {platform.name} - %{platform.apr.toFixed(2)} APY
+                      {platform.name} - %{normalizeYieldRate(platform.yieldRate).apr.toFixed(2)} APR
+                      {' / '}%{normalizeYieldRate(platform.yieldRate).apy.toFixed(2)} APY
                       {platform.tvlUsd ? ` - TVL: $${(platform.tvlUsd / 1000000).toFixed(2)}M` : ''}
                     </option>
                   ))}
@@ -352,6 +504,26 @@ export default function StakingCalculatorPage() {
                 </p>
               )}
             </div>
+            
+            {/* Staked Ratio Projection */}
+            {selectedCoinSymbol && getIssuanceModel(selectedCoinSymbol) && (
+              <div className="mb-6">
+                <label htmlFor="staked-ratio-input" className="block text-lg font-medium text-gray-300 mb-2">
+                  Süre Sonunda Stake Oranı (%, isteğe bağlı):
+                </label>
+                <input
+                  type="number"
+                  id="staked-ratio-input"
+                  value={targetStakedRatio}
+                  onChange={event => setTargetStakedRatio(event.target.value)}
+                  placeholder={`Bugün: %${((getStakingConstraints(selectedCoinSymbol)?.stakedRatio ?? 0) * 100).toFixed(0)}`}
+                  className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-sky-500 focus:border-sky-500 text-white placeholder-gray-500"
+                />
+                <p className="mt-1 text-sm text-gray-400">
+                  {getIssuanceModel(selectedCoinSymbol)?.description}
+                </p>
+              </div>
+            )}
 
             {/* Compound Options */}
             <div className="mb-6">
@@ -384,7 +556,23 @@ export default function StakingCalculatorPage() {
                     <option value="monthly">Aylık</option>
                     <option value="quarterly">Üç Aylık</option>
                     <option value="annually">Yıllık</option>
+                    <option value="epoch">Epoch başına</option>
+                    <option value="continuous">Sürekli</option>
                   </select>
+                  {compoundFrequency !== 'epoch' && compoundFrequency !== 'continuous' && (
+                    <div className="flex items-center mt-3">
+                      <input
+                        type="checkbox"
+                        id="calendar-toggle"
+                        checked={useCalendar}
+                        onChange={handleCalendarToggle}
+                        className="h-4 w-4 text-sky-500 rounded focus:ring-sky-500 border-gray-600 bg-gray-700"
+                      />
+                      <label htmlFor="calendar-toggle" className="ml-2 text-sm text-gray-400">
+                        Gerçek takvim sınırlarında öde (ay / çeyrek / yıl sonu, artık yıllar dahil)
+                      </label>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -409,31 +597,166 @@ export default function StakingCalculatorPage() {
               <div className="bg-gray-700 p-6 rounded-lg mb-8">
                 <h2 className="text-2xl font-semibold text-sky-400 mb-3">Hesaplanan Ödül:</h2>
                 <p className="text-3xl text-green-400">
-                  {calculatedReward.toFixed(6)} {selectedCoinSymbol} 
+                  {stakingResult?.amounts
+                    ? stakingResult.amounts.interest.toDecimalString()
+                    : calculatedReward.toFixed(6)} {selectedCoinSymbol} 
                   {' '}
                   <span className="text-lg text-green-300">
                     {getUsdValue(calculatedReward, selectedCoinSymbol)}
                   </span>
                 </p>
                 
+                {/* Risk Adjusted Reward */}
+                {riskAdjusted && riskAdjusted.losses.length > 0 && (
+                  <div className="mt-2">
+                    <p className="text-lg text-amber-300">
+                      Risk ayarlı: {riskAdjusted.riskAdjustedReward.toFixed(6)} {selectedCoinSymbol}
+                      {' '}
+                      <span className="text-sm text-amber-200">
+                        {getUsdValue(riskAdjusted.riskAdjustedReward, selectedCoinSymbol)}
+                      </span>
+                    </p>
+                    <ul className="mt-1 text-xs text-gray-400 space-y-1">
+                      {riskAdjusted.losses.map((loss, index) => (
+                        <li key={`${loss.risk.type}-${index}`}>
+                          {loss.risk.description}: %{(loss.probability * 100).toFixed(2)} olasılık,
+                          {' '}beklenen kayıp {loss.expectedLoss.toFixed(6)} {selectedCoinSymbol}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
+                {/* Staked Ratio Projection */}
+                {issuanceProjection && (
+                  <p className="mt-2 text-sm text-gray-300">
+                    Stake oranı %{(issuanceProjection.current.stakedRatio * 100).toFixed(0)} → %{(issuanceProjection.projected.stakedRatio * 100).toFixed(0)} olursa
+                    protokol APR %{issuanceProjection.current.apr.toFixed(2)} → %{issuanceProjection.projected.apr.toFixed(2)} olur;
+                    hesaplamada platform APR da süre boyunca aynı oranda değişir.
+                  </p>
+                )}
+                
+                {/* Real Yield */}
+                {realYield && (
+                  <p className="mt-2 text-sm text-gray-300">
+                    Nominal %{realYield.nominalApy.toFixed(2)} getiri, %{realYield.inflationRate.toFixed(2)} arz enflasyonu sonrası
+                    reel olarak %{realYield.realApy.toFixed(2)} pay büyümesine karşılık gelir
+                    (stake etmeyenler süre boyunca %{Math.abs(realYield.nonStakerDilution).toFixed(2)} sulanır).
+                  </p>
+                )}
+                
                 {/* Unbonding Period Warning */}
                 {(() => {
                   const constraints = getStakingConstraints(selectedCoinSymbol);
-                  return constraints && constraints.unbondingPeriod > 0 ? (
+                  const hasLockup = constraints && (constraints.unbondingPeriod > 0 || (constraints.warmupPeriod ?? 0) > 0);
+                  return constraints && hasLockup ? (
                     <div className="mt-4 p-3 bg-amber-900/30 border border-amber-800 rounded-md">
-                      <p className="text-amber-200">
-                        <strong>Not:</strong> {selectedCoinSymbol} için unstaking süreci {constraints.unbondingPeriod} gün sürer ve bu sürede ödül alamazsınız.
-                      </p>
+                      {constraints.unbondingPeriod > 0 && (
+                        <p className="text-amber-200">
+                          <strong>Not:</strong> {selectedCoinSymbol} için unstaking süreci {constraints.unbondingPeriod} gün sürer ve bu sürede ödül alamazsınız.
+                        </p>
+                      )}
+                      {stakingResult?.liquidDate && stakingResult.effectiveApr !== undefined && (
+                        <p className="mt-1 text-sm text-amber-300">
+                          Fonlarınız {stakingResult.liquidDate.toLocaleDateString('tr-TR')} tarihinde serbest kalır.
+                          Aktivasyon ({constraints.warmupPeriod ?? 0} gün) ve çözülme süreleriyle efektif APR: %{stakingResult.effectiveApr.toFixed(2)}
+                        </p>
+                      )}
                     </div>
                   ) : null;
                 })()}
+                
+                {/* Impermanent Loss */}
+                {impermanentLoss && (
+                  <div className="mt-4">
+                    <h3 className="text-lg font-semibold text-sky-300 mb-2">Geçici Kayıp (Tutmaya Göre):</h3>
+                    <ul className="space-y-1 text-sm">
+                      {impermanentLoss.map(result => (
+                        <li key={result.scenario.name} className="flex justify-between text-gray-200">
+                          <span>Fiyat oranı {result.scenario.name}: -%{result.impermanentLoss.toFixed(2)} IL</span>
+                          <span className={result.beatsHolding ? 'text-green-300' : 'text-red-300'}>
+                            {result.vsHold >= 0 ? '+' : ''}{result.vsHold.toFixed(2)}% ücret ve teşvikler dahil
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    {selectedCoinPlatforms[selectedPlatformIndex]?.pool?.il7d !== undefined && (
+                      <p className="mt-2 text-xs text-gray-400">
+                        Son 7 günde gerçekleşen geçici kayıp: %{Math.abs(selectedCoinPlatforms[selectedPlatformIndex].pool?.il7d ?? 0).toFixed(2)}
+                      </p>
+                    )}
+                  </div>
+                )}
+                
+                {/* Price Scenarios */}
+                {scenarioAnalysis && (
+                  <div className="mt-4">
+                    <h3 className="text-lg font-semibold text-sky-300 mb-2">Fiyat Senaryoları (Süre Sonu):</h3>
+                    <ul className="space-y-1">
+                      {scenarioAnalysis.scenarios.map(scenario => (
+                        <li key={scenario.name} className="flex justify-between text-gray-200">
+                          <span>{scenario.name} (${scenario.endPrice.toFixed(2)})</span>
+                          <span className={scenario.beatsSelling ? 'text-green-300' : 'text-red-300'}>
+                            ${scenario.fiatValue.toFixed(2)} ({scenario.returnPercent >= 0 ? '+' : ''}{scenario.returnPercent.toFixed(2)}%)
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-2 text-sm text-gray-400">
+                      Başabaş fiyatı: ${scenarioAnalysis.breakEvenPrice.toFixed(2)} ({scenarioAnalysis.breakEvenChange.toFixed(2)}%).
+                      Fiyat bunun üzerinde kalırsa staking bugün satmaktan daha kârlıdır.
+                    </p>
+                  </div>
+                )}
+                
+                {/* Sensitivity Analysis */}
+                {sensitivity && (
+                  <div className="mt-4">
+                    <h3 className="text-lg font-semibold text-sky-300 mb-2">Duyarlılık Analizi:</h3>
+                    <p className="mb-2 text-sm text-gray-400">
+                      Baz senaryoda süre sonu değer ${sensitivity.baseOutcome.toFixed(2)}. Her girdi tek başına
+                      değiştirildiğinde sonucun ne kadar oynadığı, en etkili girdi en üstte olacak şekilde gösterilir.
+                    </p>
+                    <TornadoChart analysis={sensitivity} />
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm text-gray-400">Aralıkları değiştirip yeniden hesaplayabilirsiniz (boş bırakılanlar varsayılan):</p>
+                      {sensitivity.bars.map(bar => (
+                        <div key={bar.input} className="grid grid-cols-3 gap-2 items-center">
+                          <span className="text-sm text-gray-300">{bar.label}</span>
+                          <input
+                            type="number"
+                            aria-label={`${bar.label} alt değer`}
+                            value={sensitivityRanges[bar.input]?.low ?? ''}
+                            onChange={event => setSensitivityRanges(ranges => ({
+                              ...ranges,
+                              [bar.input]: { low: event.target.value, high: ranges[bar.input]?.high ?? '' }
+                            }))}
+                            placeholder={bar.lowValue.toFixed(2)}
+                            className="w-full p-2 bg-gray-600 border border-gray-500 rounded-md text-white placeholder-gray-400"
+                          />
+                          <input
+                            type="number"
+                            aria-label={`${bar.label} üst değer`}
+                            value={sensitivityRanges[bar.input]?.high ?? ''}
+                            onChange={event => setSensitivityRanges(ranges => ({
+                              ...ranges,
+                              [bar.input]: { low: ranges[bar.input]?.low ?? '', high: event.target.value }
+                            }))}
+                            placeholder={bar.highValue.toFixed(2)}
+                            className="w-full p-2 bg-gray-600 border border-gray-500 rounded-md text-white placeholder-gray-400"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
             {/* Platform APR Comparison */}
             {selectedCoinSymbol && selectedCoinPlatforms.length > 0 && (
               <div className="bg-gray-700 p-6 rounded-lg">
-                <h2 className="text-2xl font-semibold text-sky-400 mb-4">Platform APY Karşılaştırması ({selectedCoinSymbol}):</h2>
+                <h2 className="text-2xl font-semibold text-sky-400 mb-4">Platform APR / APY Karşılaştırması ({selectedCoinSymbol}):</h2>
                 <ul className="space-y-2">
                   {selectedCoinPlatforms.map((platform, index) => (
                     <li 
@@ -449,13 +772,94 @@ export default function StakingCalculatorPage() {
                             {platform.chain}
                           </span>
                         )}
+                        {platform.score !== undefined && (
+                          <span
+                            title={platform.scoreSummary}
+                            className="ml-2 text-xs px-2 py-1 bg-gray-800 rounded-full text-amber-300"
+                          >
+                            Puan: {platform.score.toFixed(0)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <span className="font-semibold text-sky-300">
+                          %{normalizeYieldRate(platform.yieldRate).apr.toFixed(2)} APR
+                        </span>
+                        <span className="block text-xs text-gray-400">
+                          %{normalizeYieldRate(platform.yieldRate).apy.toFixed(2)} APY
+                          {platform.yieldRate.type === 'apy' ? ' (kaynak)' : ''}
+                        </span>
                       </div>
-                      <span className="font-semibold text-sky-300">%{platform.apr.toFixed(2)} APY</span>
                     </li>
                   ))}
                 </ul>
               </div>
             )}
+            
+            {/* Historical Backtest */}
+            <div className="bg-gray-700 p-6 rounded-lg mt-8">
+              <h2 className="text-xl font-semibold text-sky-400 mb-3">Geçmişte Stake Etseydim:</h2>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label htmlFor="backtest-start" className="block text-sm font-medium text-gray-400 mb-1">Başlangıç</label>
+                  <input
+                    type="date"
+                    id="backtest-start"
+                    value={backtestStart}
+                    onChange={event => setBacktestStart(event.target.value)}
+                    className="w-full p-2 bg-gray-600 border border-gray-500 rounded-md text-white"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="backtest-end" className="block text-sm font-medium text-gray-400 mb-1">Bitiş</label>
+                  <input
+                    type="date"
+                    id="backtest-end"
+                    value={backtestEnd}
+                    onChange={event => setBacktestEnd(event.target.value)}
+                    className="w-full p-2 bg-gray-600 border border-gray-500 rounded-md text-white"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={runHistoricalBacktest}
+                disabled={isBacktesting}
+                className="w-full bg-sky-700 hover:bg-sky-800 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+              >
+                {isBacktesting ? 'Geçmiş veriler yükleniyor...' : 'Geçmiş Veriyle Test Et'}
+              </button>
+              
+              {backtest && (
+                <div className="mt-4 space-y-2 text-sm">
+                  {backtest.selected ? (
+                    <p className="text-gray-200">
+                      {backtest.selected.platform}: {backtest.selected.result.tokensEarned.toFixed(6)} {selectedCoinSymbol} ödül
+                      (ortalama %{backtest.selected.result.averageApy.toFixed(2)} APY)
+                      {backtest.selected.result.fiatValue !== null && backtest.selected.result.holdFiatValue !== null && (
+                        <>
+                          , süre sonu değer ${backtest.selected.result.fiatValue.toFixed(2)};
+                          sadece tutmak ${backtest.selected.result.holdFiatValue.toFixed(2)} olurdu
+                        </>
+                      )}
+                      {backtest.selected.result.uncoveredDays > 0 && (
+                        <span className="block text-xs text-amber-300">
+                          {backtest.selected.result.uncoveredDays} gün için APY verisi yok; bu günlerde ödül hesaplanmadı.
+                        </span>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="text-amber-300">Seçilen platformun geçmişi alınamadı.</p>
+                  )}
+                  {backtest.best && backtest.best.poolId !== backtest.selected?.poolId && (
+                    <p className="text-gray-300">
+                      Aynı dönemde en iyi platform {backtest.best.platform} olurdu:
+                      {' '}{backtest.best.result.tokensEarned.toFixed(6)} {selectedCoinSymbol} ödül
+                      (ortalama %{backtest.best.result.averageApy.toFixed(2)} APY).
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
           </>
         )}
       </div>
@@ -0,0 +1,51 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { SensitivityResult } from '../lib/sensitivity';
+
+const chartConfig = {
+  lowChange: {
+    label: 'Alt değer',
+    color: '#f87171'
+  },
+  highChange: {
+    label: 'Üst değer',
+    color: '#4ade80'
+  }
+} satisfies ChartConfig;
+
+interface TornadoChartProps {
+  analysis: SensitivityResult;
+  currency?: string;
+}
+
+// Girdilerin süre sonu fiat değere etkisini baz sonuç etrafında yatay çubuklarla göster
+export function TornadoChart({ analysis, currency = '$' }: TornadoChartProps) {
+  // En etkili girdi en üstte kalır; çubuklar baz sonuca göre farkı gösterir.
+  // Alt ve üst değer aynı yönde etkileyebildiği için çubuklar yığılmaz; her biri bazdan kendi farkına uzanır
+  const data = analysis.bars.map(bar => ({
+    label: `${bar.label} (${formatInput(bar.lowValue)} – ${formatInput(bar.highValue)})`,
+    lowChange: bar.lowChange,
+    highChange: bar.highChange
+  }));
+  
+  return (
+    <ChartContainer config={chartConfig} className="min-h-[240px] w-full">
+      <BarChart data={data} layout="vertical" barGap={2} margin={{ left: 16, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickFormatter={value => `${currency}${Number(value).toFixed(0)}`} />
+        <YAxis type="category" dataKey="label" width={180} tickLine={false} axisLine={false} />
+        <ReferenceLine x={0} stroke="#9ca3af" />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="lowChange" fill="var(--color-lowChange)" radius={2} />
+        <Bar dataKey="highChange" fill="var(--color-highChange)" radius={2} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+// Girdi değerlerini eksen etiketinde kısa göster
+function formatInput(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
@@ -28,6 +28,12 @@ export interface CoinGeckoCoin {
   last_updated: string;
 }
 
+export interface CoinGeckoMarketChart {
+  prices: [number, number][];         // [zaman damgası (ms), fiyat]
+  market_caps: [number, number][];
+  total_volumes: [number, number][];
+}
+
 export interface CoinListItem {
   id: string;
   symbol: string;
@@ -40,6 +46,7 @@ class CoinGeckoApi {
   
   // Cache süreleri
   private readonly PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 dakika
+  private readonly HISTORY_CACHE_TTL = 60 * 60 * 1000; // 1 saat
   private readonly COIN_LIST_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 saat
   
   // Rate limiting için değişkenler
@@ -151,6 +158,39 @@ class CoinGeckoApi {
     }
   }
 
+  // Belirli bir tarih aralığı için geçmiş fiyatları getir
+  async getPriceHistory(
+    coinId: string,
+    from: Date,
+    to: Date,
+    currency: string = 'usd'
+  ): Promise<CoinGeckoMarketChart> {
+    const fromSeconds = Math.floor(from.getTime() / 1000);
+    const toSeconds = Math.floor(to.getTime() / 1000);
+    const cacheKey = `coingecko:history:${coinId}:${currency}:${fromSeconds}:${toSeconds}`;
+    const cachedData = cacheManager.get<CoinGeckoMarketChart>(cacheKey);
+    
+    if (cachedData) {
+      return cachedData;
+    }
+    
+    await this.checkRateLimit();
+    
+    try {
+      const response = await this.client.get<CoinGeckoMarketChart>(`/coins/${coinId}/market_chart/range`, {
+        vs_currency: currency,
+        from: fromSeconds,
+        to: toSeconds
+      });
+      
+      cacheManager.set(cacheKey, response, this.HISTORY_CACHE_TTL);
+      return response;
+    } catch (error) {
+      console.error(`Error fetching price history for coin ${coinId}:`, error);
+      throw new Error(`Failed to fetch price history for coin ${coinId}`);
+    }
+  }
+
   // Symbol'den ID'ye dönüşüm
   async getIdFromSymbol(symbol: string): Promise<string | null> {
     const coinList = await this.getCoinList();
@@ -25,6 +25,21 @@ export interface YieldResponse {
   data: YieldPool[];
 }
 
+// Bir poolun günlük geçmiş verisi (/chart/{pool})
+export interface PoolChartPoint {
+  timestamp: string;     // ISO tarih
+  tvlUsd: number;
+  apy: number;
+  apyBase?: number | null;
+  apyReward?: number | null;
+  il7d?: number | null;
+}
+
+export interface PoolChartResponse {
+  status: string;
+  data: PoolChartPoint[];
+}
+
 export interface PoolsByAsset {
   [assetSymbol: string]: YieldPool[];
 }
@@ -33,6 +48,7 @@ class DefiLlamaApi {
   private client: ApiClient;
   private readonly BASE_URL = 'https://yields.llama.fi';
   private readonly CACHE_TTL = 15 * 60 * 1000; // 15 dakika
+  private readonly HISTORY_CACHE_TTL = 60 * 60 * 1000; // 1 saat
 
   constructor() {
     this.client = new ApiClient({
@@ -73,6 +89,31 @@ class DefiLlamaApi {
     }
   }
 
+  // Bir poolun günlük APY ve TVL geçmişini getir
+  async getPoolHistory(poolId: string): Promise<PoolChartPoint[]> {
+    const cacheKey = `defillama:chart:${poolId}`;
+    const cachedData = cacheManager.get<PoolChartPoint[]>(cacheKey);
+    
+    if (cachedData) {
+      return cachedData;
+    }
+    
+    try {
+      const response = await this.client.get<PoolChartResponse>(`/chart/${poolId}`);
+      
+      if (!response || !response.data) {
+        throw new Error('Invalid response from DefiLlama API');
+      }
+      
+      const history = response.data.filter(point => typeof point.apy === 'number' && !isNaN(point.apy));
+      cacheManager.set(cacheKey, history, this.HISTORY_CACHE_TTL);
+      return history;
+    } catch (error) {
+      console.error(`Error fetching history for pool ${poolId}:`, error);
+      throw new Error(`Failed to fetch history for pool ${poolId}`);
+    }
+  }
+
   // Belirli bir coinin stake edilebileceği platformları bul
   async getStakingPlatforms(assetSymbol: string): Promise<YieldPool[]> {
     // Tam eşleşme için sembolü standartlaştır
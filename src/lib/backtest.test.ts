@@ -0,0 +1,114 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { addDays } from 'date-fns';
+import { compareBacktests, HistoryPoint, runBacktest } from './backtest';
+import { apyToApr } from './calculators';
+
+const START = new Date(2024, 0, 1);
+
+// Başlangıçtan itibaren günlük sabit değerli geçmiş
+function createHistory(value: number, days: number, offset: number = 0): HistoryPoint[] {
+  return Array.from({ length: days }, (_, day) => ({ date: addDays(START, offset + day), value }));
+}
+
+describe('runBacktest', () => {
+  it('matches the closed form for a constant APY', () => {
+    const result = runBacktest({
+      amount: 100,
+      startDate: START,
+      endDate: addDays(START, 365),
+      apyHistory: createHistory(10, 365),
+      priceHistory: []
+    });
+    
+    assert.equal(result.days, 365);
+    assert.equal(result.uncoveredDays, 0);
+    assert.ok(Math.abs(result.finalTokens - 110) < 1e-9);
+    assert.ok(Math.abs(result.realizedApy - 10) < 1e-9);
+    assert.ok(Math.abs(result.averageApy - 10) < 1e-9);
+  });
+  
+  it('pays simple interest on the APR without compounding', () => {
+    const result = runBacktest({
+      amount: 100,
+      startDate: START,
+      endDate: addDays(START, 365),
+      apyHistory: createHistory(10, 365),
+      priceHistory: [],
+      autoCompound: false
+    });
+    
+    assert.ok(Math.abs(result.tokensEarned - apyToApr(10, 365)) < 1e-9);
+  });
+  
+  it('counts days before the pool data starts as uncovered', () => {
+    const result = runBacktest({
+      amount: 100,
+      startDate: START,
+      endDate: addDays(START, 30),
+      apyHistory: createHistory(10, 25, 5),
+      priceHistory: []
+    });
+    
+    assert.equal(result.uncoveredDays, 5);
+    assert.deepEqual(result.timeline.slice(0, 5).map(point => point.apy), [null, null, null, null, null]);
+  });
+  
+  it('does not carry the last APY past the end of the data', () => {
+    const result = runBacktest({
+      amount: 100,
+      startDate: START,
+      endDate: addDays(START, 30),
+      apyHistory: createHistory(10, 20),
+      priceHistory: []
+    });
+    
+    assert.equal(result.uncoveredDays, 10);
+    assert.ok(Math.abs(result.finalTokens - 100 * Math.pow(1.1, 20 / 365)) < 1e-9);
+  });
+  
+  it('values the position and holding at the end price', () => {
+    const result = runBacktest({
+      amount: 100,
+      startDate: START,
+      endDate: addDays(START, 10),
+      apyHistory: createHistory(10, 10),
+      priceHistory: [{ date: START, value: 10 }, { date: addDays(START, 10), value: 20 }]
+    });
+    
+    assert.equal(result.startPrice, 10);
+    assert.equal(result.endPrice, 20);
+    assert.equal(result.holdFiatValue, 2000);
+    assert.ok(Math.abs((result.fiatReward ?? 0) - result.tokensEarned * 20) < 1e-9);
+    assert.ok(Math.abs((result.fiatReturn ?? 0) - (result.finalTokens * 20 / 1000 - 1) * 100) < 1e-9);
+  });
+});
+
+describe('compareBacktests', () => {
+  it('orders platforms by tokens earned and finds the selected one', () => {
+    const comparison = compareBacktests(
+      100,
+      START,
+      addDays(START, 30),
+      [
+        { platform: 'low', poolId: 'pool-low', apyHistory: createHistory(4, 30) },
+        { platform: 'high', poolId: 'pool-high', apyHistory: createHistory(8, 30) },
+        { platform: 'partial', poolId: 'pool-partial', apyHistory: createHistory(8, 10) }
+      ],
+      [],
+      'pool-low'
+    );
+    
+    assert.deepEqual(comparison.platforms.map(platform => platform.platform), ['high', 'low', 'partial']);
+    assert.equal(comparison.best?.poolId, 'pool-high');
+    assert.equal(comparison.selected?.poolId, 'pool-low');
+  });
+  
+  it('returns no selection for an unknown pool', () => {
+    const comparison = compareBacktests(100, START, addDays(START, 30), [], [], 'missing');
+    
+    assert.equal(comparison.selected, null);
+    assert.equal(comparison.best, null);
+  });
+});
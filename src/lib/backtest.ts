@@ -0,0 +1,244 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { apyToApr } from './calculators';
+import { coinGeckoApi } from './api/coingecko';
+import { YieldPool, defiLlamaApi } from './api/defillama';
+
+// Geçmiş veriyle staking testi için tip tanımlamaları
+export interface HistoryPoint {
+  date: Date;      // Verinin tarihi
+  value: number;   // APY (%) veya fiyat
+}
+
+export interface BacktestParameters {
+  amount: number;                // Stake edilen miktar (token)
+  startDate: Date;               // Staking başlangıç tarihi
+  endDate: Date;                 // Staking bitiş tarihi
+  apyHistory: HistoryPoint[];    // Poolun günlük APY geçmişi (%)
+  priceHistory: HistoryPoint[];  // Tokenın fiyat geçmişi
+  autoCompound?: boolean;        // Ödüller her gün stake'e eklenir mi? (varsayılan: true)
+}
+
+export interface BacktestPoint {
+  date: Date;
+  apy: number | null;      // O gün geçerli APY (%) (veri yoksa null)
+  tokenBalance: number;    // Ana para + birikmiş ödül (token)
+  price: number | null;    // O günkü fiyat
+  fiatValue: number | null;      // Staking pozisyonunun fiat değeri
+  holdFiatValue: number | null;  // Sadece tutmanın fiat değeri
+}
+
+export interface BacktestResult {
+  days: number;                // Test süresi (gün)
+  uncoveredDays: number;       // APY verisi bulunmadığı için ödül hesaplanmayan gün sayısı
+  tokensEarned: number;        // Kazanılan ödül (token)
+  finalTokens: number;         // Süre sonundaki bakiye (token)
+  averageApy: number;          // Veri bulunan günlerin ortalama APY'si (%)
+  realizedApy: number;         // Token bakiyesinin gerçekleşen yıllık büyümesi (%)
+  startPrice: number | null;   // Başlangıç fiyatı
+  endPrice: number | null;     // Bitiş fiyatı
+  fiatValue: number | null;    // Süre sonunda staking pozisyonunun fiat değeri
+  holdFiatValue: number | null;  // Süre sonunda sadece tutmanın fiat değeri
+  fiatReward: number | null;   // Stakingin tutmaya göre fiat kazancı
+  fiatReturn: number | null;   // Başlangıç değerine göre fiat getiri (%)
+  timeline: BacktestPoint[];   // Günlük değerler
+}
+
+export interface PlatformBacktest {
+  platform: string;          // Platform / proje adı
+  poolId: string;            // DefiLlama pool kimliği
+  result: BacktestResult;
+}
+
+export interface BacktestComparison {
+  selected: PlatformBacktest | null;   // Seçilen platformun sonucu
+  best: PlatformBacktest | null;       // Aynı dönemde en çok kazandıran platform
+  platforms: PlatformBacktest[];       // Tüm platformların sonuçları (kazanca göre azalan)
+}
+
+// Test edilecek en fazla pool sayısı (her biri ayrı bir API isteği)
+const MAX_BACKTEST_POOLS = 10;
+
+// Tarihten önceki ya da o güne ait son veriyi bul (geçmiş tarih sırasına göre)
+function getValueOnDate(history: HistoryPoint[], date: Date): number | null {
+  let value: number | null = null;
+  for (const point of history) {
+    if (point.date.getTime() > date.getTime()) break;
+    value = point.value;
+  }
+  return value;
+}
+
+// Geçmişi tarihe göre sırala
+function sortHistory(history: HistoryPoint[]): HistoryPoint[] {
+  return [...history].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Geçmiş APY ve fiyat verisiyle bir stake işleminin sonucunu hesapla
+ *
+ * Her gün o güne kadarki son APY uygulanır. DefiLlama APY'si günlük bileşik
+ * kabul edilir; bileşiksiz modda önce APR'a çevrilir ve ödüller ana paraya
+ * eklenmez. Poolun verisi başlamadan önceki ve son veri gününden sonraki
+ * günlerde ödül hesaplanmaz; bu günler uncoveredDays olarak raporlanır.
+ * @param params Test parametreleri
+ * @returns Token ve fiat bazında sonuç ile günlük değerler
+ */
+export function runBacktest(params: BacktestParameters): BacktestResult {
+  const { amount, startDate, endDate, autoCompound = true } = params;
+  const days = Math.max(differenceInCalendarDays(endDate, startDate), 0);
+  const apyHistory = sortHistory(params.apyHistory);
+  const priceHistory = sortHistory(params.priceHistory);
+  // Son APY verisi yalnızca kendi gününü kapsar; sonrası bilinmediği için ileri taşınmaz
+  const apyEnd = apyHistory.length > 0 ? addDays(apyHistory[apyHistory.length - 1].date, 1) : startDate;
+  
+  const startPrice = getValueOnDate(priceHistory, startDate) ?? priceHistory[0]?.value ?? null;
+  let balance = amount;
+  let pendingReward = 0;
+  let uncoveredDays = 0;
+  let apySum = 0;
+  
+  const timeline: BacktestPoint[] = [];
+  for (let day = 0; day < days; day++) {
+    const date = addDays(startDate, day);
+    const apy = date.getTime() < apyEnd.getTime() ? getValueOnDate(apyHistory, date) : null;
+    
+    if (apy === null) {
+      uncoveredDays++;
+    } else if (autoCompound) {
+      balance *= Math.pow(1 + apy / 100, 1 / 365);
+      apySum += apy;
+    } else {
+      pendingReward += amount * apyToApr(apy, 365) / 100 / 365;
+      apySum += apy;
+    }
+    
+    const price = getValueOnDate(priceHistory, addDays(date, 1));
+    const tokenBalance = balance + pendingReward;
+    timeline.push({
+      date: addDays(date, 1),
+      apy,
+      tokenBalance,
+      price,
+      fiatValue: price !== null ? tokenBalance * price : null,
+      holdFiatValue: price !== null ? amount * price : null
+    });
+  }
+  
+  const finalTokens = balance + pendingReward;
+  const endPrice = getValueOnDate(priceHistory, endDate);
+  const coveredDays = days - uncoveredDays;
+  const years = days / 365;
+  const fiatValue = endPrice !== null ? finalTokens * endPrice : null;
+  const holdFiatValue = endPrice !== null ? amount * endPrice : null;
+  const startValue = startPrice !== null ? amount * startPrice : null;
+  
+  return {
+    days,
+    uncoveredDays,
+    tokensEarned: finalTokens - amount,
+    finalTokens,
+    averageApy: coveredDays > 0 ? apySum / coveredDays : 0,
+    realizedApy: amount > 0 && years > 0 ? (Math.pow(finalTokens / amount, 1 / years) - 1) * 100 : 0,
+    startPrice,
+    endPrice,
+    fiatValue,
+    holdFiatValue,
+    fiatReward: fiatValue !== null && holdFiatValue !== null ? fiatValue - holdFiatValue : null,
+    fiatReturn: fiatValue !== null && startValue ? (fiatValue / startValue - 1) * 100 : null,
+    timeline
+  };
+}
+
+/**
+ * Aynı dönem için birden fazla platformun sonucunu karşılaştır
+ * @param amount Stake edilen miktar (token)
+ * @param startDate Başlangıç tarihi
+ * @param endDate Bitiş tarihi
+ * @param pools Platformların APY geçmişleri
+ * @param priceHistory Tokenın fiyat geçmişi
+ * @param selectedPoolId Seçilen platformun pool kimliği
+ * @returns Seçilen ve en iyi platform ile tüm sonuçlar
+ */
+export function compareBacktests(
+  amount: number,
+  startDate: Date,
+  endDate: Date,
+  pools: { platform: string; poolId: string; apyHistory: HistoryPoint[] }[],
+  priceHistory: HistoryPoint[],
+  selectedPoolId?: string
+): BacktestComparison {
+  const platforms = pools
+    .map(pool => ({
+      platform: pool.platform,
+      poolId: pool.poolId,
+      result: runBacktest({ amount, startDate, endDate, apyHistory: pool.apyHistory, priceHistory })
+    }))
+    .sort((a, b) => b.result.tokensEarned - a.result.tokensEarned);
+  
+  return {
+    selected: platforms.find(platform => platform.poolId === selectedPoolId) ?? null,
+    best: platforms[0] ?? null,
+    platforms
+  };
+}
+
+// DefiLlama pool geçmişini APY geçmişine çevir
+async function fetchApyHistory(poolId: string): Promise<HistoryPoint[]> {
+  const history = await defiLlamaApi.getPoolHistory(poolId);
+  return history.map(point => ({ date: new Date(point.timestamp), value: point.apy }));
+}
+
+// CoinGecko fiyat geçmişini getir (coin bulunamazsa boş)
+async function fetchPriceHistory(symbol: string, startDate: Date, endDate: Date, currency: string): Promise<HistoryPoint[]> {
+  const coinId = await coinGeckoApi.getIdFromSymbol(symbol);
+  if (!coinId) return [];
+  
+  // Başlangıç gününün fiyatı da bulunsun diye bir gün öncesinden istenir
+  const chart = await coinGeckoApi.getPriceHistory(coinId, addDays(startDate, -1), endDate, currency);
+  return chart.prices.map(([timestamp, price]) => ({ date: new Date(timestamp), value: price }));
+}
+
+/**
+ * Coinin DefiLlama poollarını geçmiş veriyle test et ve seçilen platformla karşılaştır
+ *
+ * TVL'si en yüksek MAX_BACKTEST_POOLS pool test edilir; seçilen pool bu
+ * listede değilse ayrıca eklenir. Geçmişi alınamayan poollar atlanır.
+ * @param symbol Coin sembolü
+ * @param selectedPoolId Seçilen platformun pool kimliği
+ * @param amount Stake edilen miktar (token)
+ * @param startDate Başlangıç tarihi
+ * @param endDate Bitiş tarihi
+ * @param currency Para birimi
+ * @returns Seçilen ve en iyi platform ile tüm sonuçlar
+ */
+export async function fetchBacktestComparison(
+  symbol: string,
+  selectedPoolId: string | undefined,
+  amount: number,
+  startDate: Date,
+  endDate: Date,
+  currency: string = 'usd'
+): Promise<BacktestComparison> {
+  const allPools = await defiLlamaApi.getStakingPlatforms(symbol);
+  const pools: YieldPool[] = [...allPools].sort((a, b) => b.tvlUsd - a.tvlUsd).slice(0, MAX_BACKTEST_POOLS);
+  
+  const selectedPool = allPools.find(pool => pool.pool === selectedPoolId);
+  if (selectedPool && !pools.includes(selectedPool)) {
+    pools.push(selectedPool);
+  }
+  
+  const [priceHistory, histories] = await Promise.all([
+    fetchPriceHistory(symbol, startDate, endDate, currency),
+    Promise.all(pools.map(async pool => {
+      try {
+        return { platform: pool.project, poolId: pool.pool, apyHistory: await fetchApyHistory(pool.pool) };
+      } catch (error) {
+        console.error(`Error loading history for ${pool.project}:`, error);
+        return null;
+      }
+    }))
+  ]);
+  
+  const validHistories = histories.filter((history): history is NonNullable<typeof history> => history !== null);
+  return compareBacktests(amount, startDate, endDate, validHistories, priceHistory, selectedPoolId);
+}
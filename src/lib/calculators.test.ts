@@ -0,0 +1,143 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  calculateRewardAmounts,
+  AprSegment,
+  calculateStakingRewards,
+  getAprForDay,
+  getCompoundingFrequency,
+  getRewardPeriods
+} from './calculators';
+
+describe('calculateRewardAmounts', () => {
+  it('pays exactly 10% in simple mode over a year of daily payouts', () => {
+    const amounts = calculateRewardAmounts({ principal: 100, apr: 10, days: 365, decimals: 18 });
+    
+    assert.equal(amounts.interest.units, BigInt(10) * BigInt(10) ** BigInt(18));
+    assert.equal(amounts.total.toDecimalString(), '110');
+  });
+  
+  it('rounds a single simple payout with the rounding mode', () => {
+    // 1 * 10 / 36500 = 0.000273972...
+    const params = { principal: 1, apr: 10, days: 1, decimals: 6 };
+    
+    assert.equal(calculateRewardAmounts({ ...params, roundingMode: 'floor' }).interest.units, BigInt(273));
+    assert.equal(calculateRewardAmounts({ ...params, roundingMode: 'ceil' }).interest.units, BigInt(274));
+    assert.equal(calculateRewardAmounts({ ...params, roundingMode: 'half-even' }).interest.units, BigInt(274));
+  });
+  
+  it('rounds each compounding payout in the smallest unit', () => {
+    const params = { principal: 1, apr: 10, days: 365, decimals: 6 };
+    const floor = calculateRewardAmounts({ ...params, roundingMode: 'floor' }, true).interest.units;
+    const ceil = calculateRewardAmounts({ ...params, roundingMode: 'ceil' }, true).interest.units;
+    const exactUnits = calculateStakingRewards({ ...params, decimals: undefined }, true).interest * 1e6;
+    
+    // Her ödeme en fazla 1 birim yuvarlanır; kesin sonuç iki yön arasında kalır
+    assert.ok(Number(floor) <= exactUnits && exactUnits <= Number(ceil));
+    assert.ok(exactUnits - Number(floor) <= 365 && Number(ceil) - exactUnits <= 365);
+  });
+  
+  it('pays a single yearly compounding period exactly', () => {
+    const amounts = calculateRewardAmounts({ principal: 1, apr: 10, days: 365, compoundingFrequency: 365, decimals: 6 }, true);
+    assert.equal(amounts.interest.units, BigInt(100000));
+  });
+  
+  it('reconciles principal, contributions and rewards to the last unit', () => {
+    const params = {
+      principal: 100,
+      apr: 7.3,
+      days: 365,
+      contributions: { amount: 10, frequencyDays: 30 },
+      decimals: 9
+    };
+    
+    [false, true].forEach(useCompound => {
+      const amounts = calculateRewardAmounts(params, useCompound);
+      assert.equal(amounts.contributed.toDecimalString(), '120');
+      assert.equal(amounts.total.units, amounts.principal.units + amounts.contributed.units + amounts.interest.units);
+    });
+  });
+  
+  it('fills amounts on the staking result when decimals are given', () => {
+    const result = calculateStakingRewards({ principal: 100, apr: 10, days: 365, decimals: 18 });
+    assert.equal(result.interest, 10);
+    assert.equal(result.amounts?.interest.toDecimalString(), '10');
+  });
+});
+
+describe('getRewardPeriods', () => {
+  it('ends calendar periods on month boundaries', () => {
+    const periods = getRewardPeriods({ principal: 1, apr: 5, days: 60, compoundingMode: 'calendar' }, new Date(2024, 0, 15));
+    assert.deepEqual(periods.map(period => [period.start, period.end]), [[0, 17], [17, 46], [46, 60]]);
+  });
+  
+  it('keeps month-end anniversaries on the last day of the month', () => {
+    const periods = getRewardPeriods({
+      principal: 1,
+      apr: 5,
+      days: 60,
+      compoundingMode: 'calendar',
+      calendarAnchor: 'anniversary'
+    }, new Date(2024, 0, 31));
+    assert.deepEqual(periods.map(period => period.end), [29, 60]);
+  });
+  
+  it('shortens the last fixed period', () => {
+    const periods = getRewardPeriods({ principal: 1, apr: 5, days: 65, compoundingFrequency: 30 });
+    assert.deepEqual(periods.map(period => [period.start, period.end]), [[0, 30], [30, 60], [60, 65]]);
+    assert.equal(periods[2].fraction, 5 / 30);
+  });
+});
+
+describe('compounding modes', () => {
+  it('counts a leap year as 366 days in calendar mode', () => {
+    const result = calculateStakingRewards({
+      principal: 100,
+      apr: 10,
+      days: 366,
+      compoundingMode: 'calendar',
+      startDate: new Date(2024, 0, 1)
+    });
+    assert.ok(Math.abs(result.interest - 10) < 1e-9);
+  });
+  
+  it('grows by e^rt in continuous mode', () => {
+    const result = calculateStakingRewards({ principal: 100, apr: 10, days: 365, compoundingMode: 'continuous' }, true);
+    assert.ok(Math.abs(result.interest - 100 * Math.expm1(0.1)) < 1e-9);
+  });
+  
+  it('uses the network epoch length for per-epoch compounding', () => {
+    assert.equal(getCompoundingFrequency('epoch', 5), 5);
+    assert.equal(getCompoundingFrequency('epoch'), 1);
+    assert.equal(getCompoundingFrequency('quarterly'), 90);
+  });
+});
+
+describe('getAprForDay', () => {
+  it('finds the segment for each day in a long daily schedule', () => {
+    const schedule: AprSegment[] = Array.from({ length: 1000 }, (_, day) => ({ days: 1, apr: day }));
+    
+    assert.equal(getAprForDay(schedule, 0, 1000), 0);
+    assert.equal(getAprForDay(schedule, 512.5, 1000), 512);
+    assert.equal(getAprForDay(schedule, 999, 1000), 999);
+  });
+  
+  it('skips zero-length segments and stretches open-ended ones to the duration', () => {
+    const schedule: AprSegment[] = [
+      { days: 10, apr: 5 },
+      { days: 0, apr: 99 },
+      { days: null, apr: 10, endApr: 20 }
+    ];
+    
+    assert.equal(getAprForDay(schedule, 10, 30), 10);
+    assert.equal(getAprForDay(schedule, 20, 30), 15);
+    // Aynı takvim farklı süreyle kullanıldığında süresiz segment yeniden uzatılır
+    assert.equal(getAprForDay(schedule, 20, 50), 12.5);
+  });
+  
+  it('keeps the last end APR after the schedule ends', () => {
+    assert.equal(getAprForDay([{ days: 10, apr: 5, endApr: 8 }], 15, 30), 8);
+    assert.equal(getAprForDay([], 5, 30), 0);
+  });
+});
@@ -1,32 +1,182 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfMonth,
+  getDaysInYear,
+  isLastDayOfMonth,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear
+} from 'date-fns';
+import { RoundingMode, TokenAmount, divideRounded, parseDecimal, pow10 } from './money';
+
 // Staking hesaplamaları için tip tanımlamaları
 export interface StakingParameters {
   principal: number;      // Ana para miktarı
-  apr: number;            // Yıllık getiri oranı (%)
+  apr: number;            // Bileşiksiz yıllık getiri oranı (%) (APY ise önce apyToApr ile çevrilmeli)
   days: number;           // Staking süresi (gün)
   compoundingFrequency?: number;  // Bileşik döngüsü (günde 1, haftada 1, vs)
+  compoundingMode?: CompoundingMode;  // Dönemlerin belirlenme şekli (varsayılan: periodic)
+  calendarPeriod?: CalendarPeriod;    // Takvim modunda ödemenin yapıldığı sınır (varsayılan: monthly)
+  calendarAnchor?: CalendarAnchor;    // Takvim modunda ödeme günü (varsayılan: period-end)
+  aprSchedule?: AprSegment[];     // Değişken APR takvimi (verilirse apr yerine kullanılır)
+  contributions?: ContributionPlan;  // Düzenli ek yatırım planı
+  warmupDays?: number;    // Ödül kazanmaya başlamadan önceki aktivasyon süresi (gün)
+  unbondingDays?: number; // Süre sonunda ödülsüz geçen çözülme süresi (gün)
+  startDate?: Date;       // Staking başlangıç tarihi (varsayılan: bugün)
+  decimals?: number;      // Varlığın ondalık basamağı (verilirse hesap en küçük birimle yapılır)
+  roundingMode?: RoundingMode;  // Her ödül ödemesinde yuvarlama kuralı (varsayılan: floor)
+}
+
+// Bileşik dönemlerinin belirlenme şekli:
+// periodic = sabit gün aralığı (365 günlük yıl), calendar = gerçek takvim sınırları
+// (artık yıllar dahil gün/yıl sayımı), continuous = sürekli bileşik (e^rt)
+export type CompoundingMode = 'periodic' | 'calendar' | 'continuous';
+
+// Takvim sınırı türü
+export type CalendarPeriod = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
+
+// Takvim modunda ödeme günü:
+// period-end = her ayın / çeyreğin / yılın sonunda (borsaların çoğu)
+// anniversary = başlangıç gününün yıl dönümünde (ay sonu başlangıçlar ay sonunda kalır)
+export type CalendarAnchor = 'period-end' | 'anniversary';
+
+// Ödül takviminde bir dönemin sınırları
+export interface RewardPeriod {
+  start: number;      // Dönem başlangıcı (gün)
+  end: number;        // Dönem sonu (gün)
+  fraction: number;   // Dönemin tam döngüye oranı (kısa son dönemde 1'den küçük)
+}
+
+// Düzenli ek yatırım (DCA) planı
+export interface ContributionPlan {
+  amount: number;          // Her katkıda eklenen miktar
+  frequencyDays: number;   // Katkılar arası gün sayısı
+  startDay?: number;       // İlk katkının günü (varsayılan: frequencyDays)
+  endDay?: number;         // Son katkının en geç günü (varsayılan: staking süresi)
+}
+
+// Değişken APR takviminde bir segment
+export interface AprSegment {
+  days: number | null;   // Segment süresi (gün) (null = kalan süre boyunca)
+  apr: number;           // Segment başındaki APR (%)
+  endApr?: number;       // Segment sonundaki APR (%) (verilmezse APR sabit kalır)
+  curve?: 'linear' | 'exponential';  // Başlangıç ve bitiş APR'ı arasındaki geçiş şekli
 }
 
 export interface StakingResult {
   principal: number;     // Ana para
   interest: number;      // Kazanılan faiz
-  total: number;         // Toplam değer (ana para + faiz)
+  total: number;         // Toplam değer (ana para + katkılar + faiz)
+  contributed?: number;  // Süre boyunca eklenen toplam katkı (katkı planı kullanılıyorsa)
   apr: number;           // Kullanılan APR
   apy?: number;          // Hesaplanan APY (bileşik faiz kullanılıyorsa)
+  effectiveApr?: number; // Süre boyunca ağırlıklı ortalama APR (değişken APR kullanılıyorsa)
+  effectiveApy?: number; // Gerçekleşen büyümenin yıllıklandırılmış hali (değişken APR kullanılıyorsa)
+  lockedDays?: number;   // Aktivasyon ve çözülme dahil fonların bağlı kaldığı gün sayısı
+  liquidDate?: Date;     // Fonların çözülme sonrası serbest kaldığı tarih
+  amounts?: RewardAmounts;  // En küçük birim cinsinden kesin tutarlar (decimals verilmişse)
+}
+
+// Varlığın ondalık basamağıyla kesin tutarlar
+export interface RewardAmounts {
+  principal: TokenAmount;    // Ana para
+  contributed: TokenAmount;  // Eklenen katkılar
+  interest: TokenAmount;     // Kazanılan ödül
+  total: TokenAmount;        // Toplam (ana para + katkılar + ödül)
+}
+
+// Likit staking tokenının ödülü yansıtma şekli:
+// rebasing = token bakiyesi artar (Lido stETH), exchange-rate = bakiye sabit,
+// tokenın varlık karşılığı artar (Rocket Pool rETH, Jito jitoSOL)
+export type LiquidStakingStyle = 'rebasing' | 'exchange-rate';
+
+export interface LiquidStakingParameters extends StakingParameters {
+  style: LiquidStakingStyle;        // Ödül yansıtma şekli
+  protocolFee?: number;             // Protokolün ödülden aldığı pay (%)
+  initialExchangeRate?: number;     // Başlangıçta 1 LST'nin karşılığı olan varlık (varsayılan: 1)
+  exitDay?: number;                 // Erken çıkış günü (verilirse LST ikincil piyasada satılır)
+  secondaryMarketPremium?: number;  // Erken çıkışta adil değere göre prim (%) (negatif = iskonto)
+}
+
+// Likit staking zaman çizelgesinde bir nokta
+export interface LiquidStakingPoint {
+  day: number;              // Başlangıçtan itibaren gün
+  date: Date;               // Tarih
+  lstBalance: number;       // LST bakiyesi
+  exchangeRate: number;     // 1 LST'nin varlık karşılığı
+  underlyingValue: number;  // LST bakiyesinin varlık karşılığı
+  rebaseAmount: number;     // Bu dönemde rebase ile eklenen LST (exchange-rate modelinde 0)
+}
+
+export interface LiquidStakingResult {
+  style: LiquidStakingStyle;
+  lstBalance: number;         // Çıkıştaki LST bakiyesi
+  exchangeRate: number;       // Çıkıştaki LST / varlık kuru
+  underlyingValue: number;    // Çıkıştaki LST'nin adil varlık karşılığı
+  grossReward: number;        // Protokol ücreti öncesi ödül (varlık)
+  protocolFeePaid: number;    // Protokole giden ödül payı (varlık)
+  netReward: number;          // Ücret sonrası ödül (varlık)
+  exitValue: number;          // Çıkışta elde edilen varlık (prim / iskonto dahil)
+  exitPremium: number;        // İkincil piyasa priminin / iskontosunun tutarı (varlık)
+  liquidDay: number;          // Fonların kullanılabilir olduğu gün
+  liquidDate: Date;           // Fonların kullanılabilir olduğu tarih
+  effectiveApy: number;       // Çıkış değerinin kullanılabilir olunan güne göre yıllıklandırılmış hali (%)
+  timeline: LiquidStakingPoint[];
+}
+
+// Ödül takviminde bir dönemi temsil eden satır
+export interface RewardScheduleRow {
+  period: number;            // Dönem numarası (1'den başlar)
+  date: Date;                // Dönem sonu tarihi
+  days: number;              // Dönemin gün sayısı
+  openingBalance: number;    // Dönem başındaki stake bakiyesi
+  deposits: number;          // Dönem içinde eklenen katkılar
+  rewardAccrued: number;     // Dönem içinde kazanılan ödül
+  compoundedAmount: number;  // Stake bakiyesine eklenen ödül (basit faizde 0)
+  closingBalance: number;    // Dönem sonundaki stake bakiyesi
+  cumulativeReward: number;  // Başlangıçtan bu yana kazanılan toplam ödül
+  cumulativeDeposits: number;  // Başlangıçtan bu yana eklenen toplam katkı
 }
 
 /**
  * APR'dan APY'ye dönüşüm
  * @param apr Yıllık getiri oranı (%)
- * @param compoundingFrequency Yıllık bileşik döngüsü
+ * @param compoundingFrequency Yıllık bileşik döngüsü (Infinity = sürekli bileşik)
  * @returns Yıllık bileşik getiri oranı (%)
  */
 export function aprToApy(apr: number, compoundingFrequency: number = 365): number {
+  // Sürekli bileşikte APY = e^APR - 1
+  if (!isFinite(compoundingFrequency)) {
+    return Math.expm1(apr / 100) * 100;
+  }
+  
   // APY = (1 + (APR / compoundingFrequency)) ^ compoundingFrequency - 1
   const periodicRate = apr / 100 / compoundingFrequency;
   const apy = Math.pow(1 + periodicRate, compoundingFrequency) - 1;
   return apy * 100; // % olarak döndür
 }
 
+/**
+ * APY'den APR'a dönüşüm (aprToApy'nin tersi)
+ * @param apy Yıllık bileşik getiri oranı (%)
+ * @param compoundingFrequency APY'nin varsaydığı yıllık bileşik döngüsü (Infinity = sürekli bileşik)
+ * @returns Bileşiksiz yıllık getiri oranı (%)
+ */
+export function apyToApr(apy: number, compoundingFrequency: number = 365): number {
+  // Sürekli bileşikte APR = ln(1 + APY)
+  if (!isFinite(compoundingFrequency)) {
+    return Math.log1p(apy / 100) * 100;
+  }
+  
+  // APR = ((1 + APY) ^ (1 / compoundingFrequency) - 1) * compoundingFrequency
+  const periodicRate = Math.pow(1 + apy / 100, 1 / compoundingFrequency) - 1;
+  return periodicRate * compoundingFrequency * 100;
+}
+
 /**
  * Basit faiz hesaplama
  * @param params Staking parametreleri
@@ -60,6 +210,18 @@ export function calculateSimpleInterest(params: StakingParameters): StakingResul
 export function calculateCompoundInterest(params: StakingParameters): StakingResult {
   const { principal, apr, days, compoundingFrequency = 1 } = params;
   
+  if (params.compoundingMode === 'continuous') {
+    // Sürekli bileşik: A = P * e^(r * t)
+    const continuousTotal = principal * Math.exp(apr / 100 * days / 365);
+    return {
+      principal,
+      interest: continuousTotal - principal,
+      total: continuousTotal,
+      apr,
+      apy: aprToApy(apr, Infinity)
+    };
+  }
+  
   // Döngü başına getiri oranını hesapla
   const periodicRate = apr / 100 / 365 * compoundingFrequency;
   
@@ -94,20 +256,46 @@ export function calculateStakingRewards(
   params: StakingParameters, 
   useCompound: boolean = false
 ): StakingResult {
-  if (useCompound) {
-    return calculateCompoundInterest(params);
-  } else {
-    return calculateSimpleInterest(params);
+  const usesSchedule =
+    (params.aprSchedule && params.aprSchedule.length > 0) ||
+    params.contributions ||
+    params.compoundingMode === 'calendar' ||
+    params.warmupDays ||
+    params.unbondingDays;
+  
+  const result = usesSchedule
+    ? calculateScheduledRewards(params, useCompound)
+    : useCompound
+      ? calculateCompoundInterest(params)
+      : calculateSimpleInterest(params);
+  
+  if (params.decimals === undefined) {
+    return result;
   }
+  
+  // Ondalık basamak verilmişse tutarlar en küçük birimle yeniden hesaplanır
+  const amounts = calculateRewardAmounts(params, useCompound);
+  return {
+    ...result,
+    interest: amounts.interest.toNumber(),
+    total: amounts.total.toNumber(),
+    amounts
+  };
 }
 
 /**
  * Bileşik döngü sıklığı için günlük değeri belirle
+ *
+ * Aylık ve üç aylık değerler yaklaşıktır; gerçek ay ve çeyrek sınırları için
+ * compoundingMode: 'calendar' kullanılmalıdır.
  * @param frequency Sıklık türü
+ * @param epochLengthDays Epoch başına bileşikte ağın epoch uzunluğu (gün)
  * @returns Gün cinsinden sıklık
  */
-export function getCompoundingFrequency(frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually'): number {
+export function getCompoundingFrequency(frequency: CalendarPeriod | 'epoch', epochLengthDays?: number): number {
   switch (frequency) {
+    case 'epoch':
+      return epochLengthDays && epochLengthDays > 0 ? epochLengthDays : 1;
     case 'daily':
       return 1;
     case 'weekly':
@@ -121,4 +309,585 @@ export function getCompoundingFrequency(frequency: 'daily' | 'weekly' | 'monthly
     default:
       return 1;
   }
-} 
\ No newline at end of file
+}
+
+// Takvim sınırlarının ay cinsinden uzunlukları
+const CALENDAR_PERIOD_MONTHS = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12
+};
+
+// Başlangıçtan sonraki index'inci takvim sınırının tarihini bul
+function getCalendarBoundary(
+  startDate: Date,
+  period: CalendarPeriod,
+  anchor: CalendarAnchor,
+  index: number
+): Date {
+  if (period === 'daily') {
+    return addDays(startDate, index);
+  }
+  
+  if (period === 'weekly') {
+    // Dönem sonu: ISO haftası (pazartesi başlar)
+    return anchor === 'anniversary'
+      ? addWeeks(startDate, index)
+      : addWeeks(startOfWeek(startDate, { weekStartsOn: 1 }), index);
+  }
+  
+  const months = CALENDAR_PERIOD_MONTHS[period] * index;
+  
+  if (anchor === 'anniversary') {
+    // Her sınır başlangıçtan hesaplanır, böylece 31 Ocak -> 28 Şubat -> 31 Mart olur;
+    // ayın son gününde başlayan staking her ay sonunda ödenir
+    const boundary = addMonths(startDate, months);
+    return isLastDayOfMonth(startDate) ? endOfMonth(boundary) : boundary;
+  }
+  
+  const periodStart = period === 'monthly'
+    ? startOfMonth(startDate)
+    : period === 'quarterly'
+      ? startOfQuarter(startDate)
+      : startOfYear(startDate);
+  return addMonths(periodStart, months);
+}
+
+/**
+ * Staking süresini ödül dönemlerine böl
+ *
+ * Takvim modunda dönemler gerçek ay / çeyrek / yıl sınırlarında biter; ilk ve
+ * son dönem kısa kalabilir. Diğer modlarda dönem uzunluğu bileşik döngüsüdür.
+ * @param params Staking parametreleri
+ * @param startDate Staking başlangıç tarihi
+ * @returns Dönem sınırları
+ */
+export function getRewardPeriods(
+  params: StakingParameters,
+  startDate: Date = params.startDate ?? new Date()
+): RewardPeriod[] {
+  const { days, compoundingFrequency = 1, compoundingMode = 'periodic' } = params;
+  const periods: RewardPeriod[] = [];
+  
+  if (compoundingMode === 'calendar') {
+    const calendarPeriod = params.calendarPeriod ?? 'monthly';
+    const calendarAnchor = params.calendarAnchor ?? 'period-end';
+    
+    let periodStart = 0;
+    for (let index = 1; periodStart < days; index++) {
+      const boundary = getCalendarBoundary(startDate, calendarPeriod, calendarAnchor, index);
+      const periodEnd = Math.min(differenceInCalendarDays(boundary, startDate), days);
+      periods.push({ start: periodStart, end: periodEnd, fraction: 1 });
+      periodStart = periodEnd;
+    }
+    
+    return periods;
+  }
+  
+  const periodLength = compoundingFrequency > 0 ? compoundingFrequency : 1;
+  for (let periodStart = 0; periodStart < days; periodStart += periodLength) {
+    const periodDays = Math.min(periodLength, days - periodStart);
+    periods.push({ start: periodStart, end: periodStart + periodDays, fraction: periodDays / periodLength });
+  }
+  
+  return periods;
+}
+
+/**
+ * Dönem boyunca birikmiş orandan bakiyenin bileşik büyüme oranını bul
+ *
+ * Sabit döngüde kısa son dönem için kesirli üs kullanılır: (1 + r)^(gün / döngü).
+ * Takvim modunda ödül dönem içinde doğrusal birikir ve sınırda ödenir; sürekli
+ * bileşikte büyüme e^r - 1 olur.
+ * @param mode Bileşik modu
+ * @param accruedRate Dönem boyunca birikmiş oran (ondalık)
+ * @param fraction Dönemin tam döngüye oranı
+ * @returns Bakiyenin dönemlik büyüme oranı (ondalık)
+ */
+export function getPeriodGrowthRate(mode: CompoundingMode, accruedRate: number, fraction: number): number {
+  switch (mode) {
+    case 'continuous':
+      return Math.expm1(accruedRate);
+    case 'calendar':
+      return accruedRate;
+    default:
+      return Math.pow(1 + accruedRate / fraction, fraction) - 1;
+  }
+}
+
+// Takvim başına segment başlangıç günleri (son eleman takvimin bitişi)
+interface ScheduleIndex {
+  totalDays: number;
+  segmentCount: number;
+  starts: number[];
+}
+
+const scheduleIndexes = new WeakMap<AprSegment[], ScheduleIndex>();
+
+// Segment başlangıçlarını takvim başına bir kez hesapla; süre veya segment sayısı değişirse yenile
+function getSegmentStarts(schedule: AprSegment[], totalDays: number): number[] {
+  const cached = scheduleIndexes.get(schedule);
+  if (cached && cached.totalDays === totalDays && cached.segmentCount === schedule.length) {
+    return cached.starts;
+  }
+  
+  const starts = [0];
+  for (const segment of schedule) {
+    const segmentStart = starts[starts.length - 1];
+    starts.push(segmentStart + (segment.days ?? Math.max(totalDays - segmentStart, 0)));
+  }
+  
+  scheduleIndexes.set(schedule, { totalDays, segmentCount: schedule.length, starts });
+  return starts;
+}
+
+/**
+ * APR takvimine göre belirli bir gündeki APR'ı bul
+ *
+ * Segment başlangıçları takvim başına bir kez hesaplanıp ikili aramayla
+ * bulunur; böylece simülasyonun günlük APR yolu gibi uzun takvimlerde her gün
+ * için takvimi baştan taramak gerekmez.
+ * @param schedule APR takvimi
+ * @param day Başlangıçtan itibaren geçen gün (0'dan başlar)
+ * @param totalDays Toplam staking süresi (süresiz segmentin uzunluğu için)
+ * @returns O gün geçerli APR (%)
+ */
+export function getAprForDay(schedule: AprSegment[], day: number, totalDays: number): number {
+  if (schedule.length === 0) return 0;
+  
+  const starts = getSegmentStarts(schedule, totalDays);
+  if (day < starts[schedule.length]) {
+    // Başlangıcı bu günden sonra olmayan son segment (sıfır günlük segmentler atlanır)
+    let low = 0;
+    let high = schedule.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (starts[middle] <= day) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    
+    const segment = schedule[low];
+    const length = segment.days ?? Math.max(totalDays - starts[low], 0);
+    return interpolateSegmentApr(segment, (day - starts[low]) / length);
+  }
+  
+  // Takvim bittiyse son segmentin bitiş APR'ı geçerli kalır
+  const lastSegment = schedule[schedule.length - 1];
+  return lastSegment.endApr ?? lastSegment.apr;
+}
+
+// Segment içindeki konuma (0-1) göre APR'ı hesapla
+function interpolateSegmentApr(segment: AprSegment, position: number): number {
+  const { apr, endApr } = segment;
+  if (endApr === undefined || endApr === apr) return apr;
+  
+  // Üstel eğri yalnızca pozitif APR'larda tanımlı, aksi halde lineer geçiş
+  if (segment.curve === 'exponential' && apr > 0 && endApr > 0) {
+    return apr * Math.pow(endApr / apr, position);
+  }
+  
+  return apr + (endApr - apr) * position;
+}
+
+/**
+ * Bir gün aralığında birikmiş (bileşiksiz) getiri oranını hesapla
+ * @param params Staking parametreleri
+ * @param fromDay Aralık başlangıcı (gün)
+ * @param toDay Aralık sonu (gün)
+ * @returns Aralık boyunca toplam oran (ondalık)
+ */
+export function getAccruedRate(params: StakingParameters, fromDay: number, toDay: number): number {
+  const { apr, aprSchedule, days, warmupDays = 0 } = params;
+  
+  // Aktivasyon süresi boyunca ödül birikmez
+  const accrualStart = Math.max(fromDay, warmupDays);
+  if (accrualStart >= toDay) return 0;
+  
+  const hasSchedule = aprSchedule !== undefined && aprSchedule.length > 0;
+  const usesCalendar = params.compoundingMode === 'calendar';
+  
+  if (!hasSchedule && !usesCalendar) {
+    return apr / 100 / 365 * (toDay - accrualStart);
+  }
+  
+  // Değişken APR günlük olarak uygulanır; kesirli günler oranlanır.
+  // Takvim modunda her gün kendi yılının gün sayısına bölünür (artık yılda 366)
+  const startDate = params.startDate ?? new Date();
+  let rate = 0;
+  for (let day = Math.floor(accrualStart); day < toDay; day++) {
+    const overlap = Math.min(day + 1, toDay) - Math.max(day, accrualStart);
+    const dayApr = hasSchedule ? getAprForDay(aprSchedule, day, days) : apr;
+    const yearLength = usesCalendar ? getDaysInYear(addDays(startDate, day)) : 365;
+    rate += dayApr / 100 / yearLength * overlap;
+  }
+  return rate;
+}
+
+/**
+ * Değişken APR takvimi veya katkı planıyla basit ya da bileşik faiz hesaplama
+ * @param params Staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Hesaplama sonuçları (ağırlıklı APR ve APY dahil)
+ */
+export function calculateScheduledRewards(
+  params: StakingParameters,
+  useCompound: boolean = false
+): StakingResult {
+  // Takvim gün sayımı ve serbest kalma tarihi aynı başlangıç tarihini kullanır
+  if (!params.startDate) {
+    return calculateScheduledRewards({ ...params, startDate: new Date() }, useCompound);
+  }
+  
+  const { principal, days, unbondingDays = 0 } = params;
+  const rows = generateRewardSchedule(params, useCompound);
+  const lastRow = rows.length > 0 ? rows[rows.length - 1] : null;
+  
+  const interest = lastRow ? lastRow.cumulativeReward : 0;
+  const contributed = lastRow ? lastRow.cumulativeDeposits : 0;
+  const total = principal + contributed + interest;
+  
+  // Fonlar staking süresi artı ödülsüz çözülme süresi boyunca bağlı kalır
+  const lockedDays = days + unbondingDays;
+  
+  // Ağırlıklı APR: bağlı kalınan süre boyunca uygulanan APR'ların ortalaması
+  const effectiveApr = lockedDays > 0 ? getAccruedRate(params, 0, days) * 365 / lockedDays * 100 : 0;
+  
+  // Katkılar büyümeyi çarpıtmasın diye tek birimin büyümesi yıllıklandırılır
+  const unitGrowth = params.contributions
+    ? 1 + calculateScheduledRewards({ ...params, principal: 1, contributions: undefined }, useCompound).interest
+    : principal > 0 ? total / principal : 1;
+  const effectiveApy = lockedDays > 0 ? (Math.pow(unitGrowth, 365 / lockedDays) - 1) * 100 : 0;
+  
+  return {
+    principal,
+    interest,
+    total,
+    contributed: params.contributions ? contributed : undefined,
+    apr: params.aprSchedule && params.aprSchedule.length > 0 ? effectiveApr : params.apr,
+    apy: useCompound ? effectiveApy : undefined,
+    effectiveApr,
+    effectiveApy,
+    lockedDays,
+    liquidDate: addDays(params.startDate, lockedDays)
+  };
+}
+
+/**
+ * Katkı planına göre katkı yapılacak günleri bul
+ * @param plan Katkı planı
+ * @param totalDays Staking süresi (gün)
+ * @returns Başlangıçtan itibaren katkı günleri
+ */
+export function getContributionDays(plan: ContributionPlan, totalDays: number): number[] {
+  if (plan.amount <= 0 || plan.frequencyDays <= 0) return [];
+  
+  const contributionDays: number[] = [];
+  const endDay = Math.min(plan.endDay ?? totalDays, totalDays);
+  
+  // Son gün yapılan katkı ödül kazanmayacağı için dahil edilmez
+  for (let day = plan.startDay ?? plan.frequencyDays; day <= endDay && day < totalDays; day += plan.frequencyDays) {
+    contributionDays.push(day);
+  }
+  
+  return contributionDays;
+}
+
+/**
+ * Dönem dönem ödül takvimi oluştur
+ *
+ * Dönem uzunluğu bileşik döngüsüdür (basit faizde ödül ödeme aralığı olarak
+ * kullanılır). Süre döngünün tam katı değilse son dönem kısa kalır; bu
+ * durumda da son satırın bakiyesi calculateStakingRewards sonucuyla aynıdır.
+ * Takvim modunda dönemler getRewardPeriods ile gerçek takvim sınırlarında biter.
+ * @param params Staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @param startDate Staking başlangıç tarihi
+ * @returns Dönem satırları
+ */
+export function generateRewardSchedule(
+  params: StakingParameters,
+  useCompound: boolean = false,
+  startDate: Date = params.startDate ?? new Date()
+): RewardScheduleRow[] {
+  const { principal, days, compoundingMode = 'periodic', contributions } = params;
+  const contributionDays = contributions ? getContributionDays(contributions, days) : [];
+  const contributionAmount = contributions ? contributions.amount : 0;
+  
+  // Takvim modunda gün sayımı verilen başlangıç tarihine göre yapılır
+  const periodParams = { ...params, startDate };
+  
+  const rows: RewardScheduleRow[] = [];
+  let balance = principal;
+  let cumulativeReward = 0;
+  let cumulativeDeposits = 0;
+  
+  for (const { start: periodStart, end: periodEnd, fraction } of getRewardPeriods(periodParams, startDate)) {
+    // Dönem boyunca birikmiş oran (sabit APR'da r * gün / döngü)
+    const accruedRate = getAccruedRate(periodParams, periodStart, periodEnd);
+    
+    // Basit faizde yalnızca ana para ve önceki katkılar kazanır
+    let rewardAccrued = useCompound
+      ? balance * getPeriodGrowthRate(compoundingMode, accruedRate, fraction)
+      : (principal + cumulativeDeposits) * accruedRate;
+    
+    // Dönem içindeki katkılar yatırıldıkları günden dönem sonuna kadar kazanır
+    let deposits = 0;
+    for (const day of contributionDays) {
+      if (day >= periodStart && day < periodEnd) {
+        const depositRate = getAccruedRate(periodParams, day, periodEnd);
+        deposits += contributionAmount;
+        rewardAccrued += contributionAmount * (useCompound && compoundingMode === 'continuous'
+          ? Math.expm1(depositRate)
+          : depositRate);
+      }
+    }
+    
+    const compoundedAmount = useCompound ? rewardAccrued : 0;
+    
+    cumulativeReward += rewardAccrued;
+    cumulativeDeposits += deposits;
+    
+    rows.push({
+      period: rows.length + 1,
+      date: addDays(startDate, periodEnd),
+      days: periodEnd - periodStart,
+      openingBalance: balance,
+      deposits,
+      rewardAccrued,
+      compoundedAmount,
+      closingBalance: balance + deposits + compoundedAmount,
+      cumulativeReward,
+      cumulativeDeposits
+    });
+    
+    balance += deposits + compoundedAmount;
+  }
+  
+  return rows;
+}
+
+/**
+ * Bir gün aralığındaki oranı kesin bir oran (pay / payda) olarak hesapla
+ *
+ * Sabit APR ve tam gün sayısında oran APR * gün / 36500 olarak kayıpsızdır;
+ * değişken APR'da ondalık oran birebir ondalık metne çevrilir.
+ */
+function getAccruedRateRatio(params: StakingParameters, fromDay: number, toDay: number): [bigint, bigint] {
+  const { apr, aprSchedule, warmupDays = 0 } = params;
+  const accrualDays = toDay - Math.max(fromDay, warmupDays);
+  
+  if (accrualDays <= 0) {
+    return [BigInt(0), BigInt(1)];
+  }
+  
+  const usesFixedYear = params.compoundingMode !== 'calendar';
+  if ((!aprSchedule || aprSchedule.length === 0) && usesFixedYear && Number.isInteger(accrualDays)) {
+    const [aprDigits, aprScale] = parseDecimal(apr);
+    return [aprDigits * BigInt(accrualDays), pow10(aprScale) * BigInt(36500)];
+  }
+  
+  const [rateDigits, rateScale] = parseDecimal(getAccruedRate(params, fromDay, toDay));
+  return [rateDigits, pow10(rateScale)];
+}
+
+// İki kesri topla ve sadeleştir (pay, payda)
+function addRatio([leftNumerator, leftDenominator]: [bigint, bigint], numerator: bigint, denominator: bigint): [bigint, bigint] {
+  const sumNumerator = leftNumerator * denominator + numerator * leftDenominator;
+  const sumDenominator = leftDenominator * denominator;
+  
+  let a = sumNumerator < BigInt(0) ? -sumNumerator : sumNumerator;
+  let b = sumDenominator;
+  while (b !== BigInt(0)) {
+    [a, b] = [b, a % b];
+  }
+  
+  return a > BigInt(1) ? [sumNumerator / a, sumDenominator / a] : [sumNumerator, sumDenominator];
+}
+
+/**
+ * Ödülleri varlığın en küçük birimiyle hesapla
+ *
+ * Dönemler generateRewardSchedule ile aynıdır. Bileşik modda her dönemin ödülü
+ * zincir üzerindeki ödemeler gibi en küçük birime yuvarlanır, böylece toplamlar
+ * kayan nokta hatası biriktirmeden birim birim eşleşir. Basit faizde ödül ana
+ * paraya eklenmediği için dönem ödülleri kesir olarak biriktirilir ve ödemede
+ * bir kez yuvarlanır; 365 günde %10 tam olarak %10 öder.
+ * @param params Staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Kesin tutarlar
+ */
+export function calculateRewardAmounts(
+  params: StakingParameters,
+  useCompound: boolean = false
+): RewardAmounts {
+  const { days, compoundingMode = 'periodic', contributions, decimals = 18, roundingMode = 'floor' } = params;
+  const periodParams = { ...params, startDate: params.startDate ?? new Date() };
+  const contributionDays = contributions ? getContributionDays(contributions, days) : [];
+  
+  const principal = TokenAmount.fromDecimal(params.principal, decimals, roundingMode);
+  const contributionAmount = TokenAmount.fromDecimal(contributions ? contributions.amount : 0, decimals, roundingMode);
+  
+  let balance = principal;        // Bileşikte ödül kazanan bakiye
+  let simpleBase = principal;     // Basit faizde ödül kazanan bakiye (ödüller hariç)
+  let interest = TokenAmount.zero(decimals);
+  let simpleReward: [bigint, bigint] = [BigInt(0), BigInt(1)];  // Basit faizde ödemeye kadar biriken kesin ödül (birim)
+  let contributed = TokenAmount.zero(decimals);
+  const usesContinuous = useCompound && compoundingMode === 'continuous';
+  
+  for (const { start: periodStart, end: periodEnd, fraction } of getRewardPeriods(periodParams)) {
+    let reward = TokenAmount.zero(decimals);
+    if (!useCompound) {
+      const [numerator, denominator] = getAccruedRateRatio(periodParams, periodStart, periodEnd);
+      simpleReward = addRatio(simpleReward, simpleBase.units * numerator, denominator);
+    } else if (fraction === 1 && !usesContinuous) {
+      const [numerator, denominator] = getAccruedRateRatio(periodParams, periodStart, periodEnd);
+      reward = balance.mulRatio(numerator, denominator, roundingMode);
+    } else {
+      // Kısa son dönemin kesirli üssü ve sürekli bileşiğin e^r'si rasyonel değildir
+      const accruedRate = getAccruedRate(periodParams, periodStart, periodEnd);
+      reward = balance.mulDecimal(getPeriodGrowthRate(compoundingMode, accruedRate, fraction), roundingMode);
+    }
+    
+    // Dönem içindeki katkılar yatırıldıkları günden dönem sonuna kadar kazanır
+    let deposits = TokenAmount.zero(decimals);
+    for (const day of contributionDays) {
+      if (day >= periodStart && day < periodEnd) {
+        deposits = deposits.add(contributionAmount);
+        if (!useCompound) {
+          const [numerator, denominator] = getAccruedRateRatio(periodParams, day, periodEnd);
+          simpleReward = addRatio(simpleReward, contributionAmount.units * numerator, denominator);
+        } else if (usesContinuous) {
+          reward = reward.add(contributionAmount.mulDecimal(
+            Math.expm1(getAccruedRate(periodParams, day, periodEnd)),
+            roundingMode
+          ));
+        } else {
+          const [numerator, denominator] = getAccruedRateRatio(periodParams, day, periodEnd);
+          reward = reward.add(contributionAmount.mulRatio(numerator, denominator, roundingMode));
+        }
+      }
+    }
+    
+    interest = interest.add(reward);
+    contributed = contributed.add(deposits);
+    simpleBase = simpleBase.add(deposits);
+    balance = balance.add(deposits).add(reward);
+  }
+  
+  if (!useCompound) {
+    interest = new TokenAmount(divideRounded(simpleReward[0], simpleReward[1], roundingMode), decimals);
+  }
+  
+  return {
+    principal,
+    contributed,
+    interest,
+    total: principal.add(contributed).add(interest)
+  };
+}
+
+/**
+ * Likit staking tokenı (LST) ile staking hesapla
+ *
+ * LST'lerde ödül her dönem stake edilen varlığa eklendiği için her iki modelde
+ * de getiri bileşiktir; fark ödülün nerede göründüğüdür. Rebasing modelinde LST
+ * bakiyesi her dönem artar (çoğu vergi sisteminde her rebase ayrı bir gelir
+ * olayıdır), exchange-rate modelinde bakiye sabit kalır ve kazanç ancak LST
+ * satıldığında veya itfa edildiğinde ortaya çıkar.
+ *
+ * Çıkış günü verilmezse LST süre sonunda protokol üzerinden itfa edilir ve
+ * fonlar çözülme süresi sonunda kullanılabilir olur. Çıkış günü verilirse LST o
+ * gün ikincil piyasada primli / iskontolu fiyattan satılır. Katkı planı
+ * dikkate alınmaz.
+ * @param params Likit staking parametreleri
+ * @returns LST bakiyesi, kur ve varlık karşılığı zaman çizelgesi
+ */
+export function calculateLiquidStaking(params: LiquidStakingParameters): LiquidStakingResult {
+  const {
+    principal,
+    days,
+    style,
+    protocolFee = 0,
+    initialExchangeRate = 1,
+    secondaryMarketPremium = 0,
+    compoundingMode = 'periodic',
+    unbondingDays = 0
+  } = params;
+  const startDate = params.startDate ?? new Date();
+  const rateParams = { ...params, startDate };
+  const soldOnMarket = params.exitDay !== undefined;
+  const exitDay = soldOnMarket ? Math.min(Math.max(params.exitDay ?? days, 0), days) : days;
+  const feeRate = protocolFee / 100;
+  
+  let underlyingValue = principal;
+  let exchangeRate = style === 'rebasing' ? 1 : initialExchangeRate;
+  let lstBalance = exchangeRate > 0 ? principal / exchangeRate : 0;
+  let grossReward = 0;
+  let protocolFeePaid = 0;
+  
+  const timeline: LiquidStakingPoint[] = [{
+    day: 0,
+    date: startDate,
+    lstBalance,
+    exchangeRate,
+    underlyingValue,
+    rebaseAmount: 0
+  }];
+  
+  for (const { start, end, fraction } of getRewardPeriods({ ...rateParams, days: exitDay }, startDate)) {
+    const accruedRate = getAccruedRate(rateParams, start, end);
+    const gross = underlyingValue * getPeriodGrowthRate(compoundingMode, accruedRate, fraction);
+    const fee = gross * feeRate;
+    
+    grossReward += gross;
+    protocolFeePaid += fee;
+    underlyingValue += gross - fee;
+    
+    // Rebasing'de yeni LST basılır, exchange-rate'de mevcut LST'nin değeri artar
+    let rebaseAmount = 0;
+    if (style === 'rebasing') {
+      rebaseAmount = underlyingValue - lstBalance;
+      lstBalance = underlyingValue;
+    } else if (lstBalance > 0) {
+      exchangeRate = underlyingValue / lstBalance;
+    }
+    
+    timeline.push({
+      day: end,
+      date: addDays(startDate, end),
+      lstBalance,
+      exchangeRate,
+      underlyingValue,
+      rebaseAmount
+    });
+  }
+  
+  const exitValue = soldOnMarket
+    ? underlyingValue * (1 + secondaryMarketPremium / 100)
+    : underlyingValue;
+  
+  // İtfa edilen LST çözülme süresini bekler, ikincil piyasada satış anında likittir
+  const liquidDay = soldOnMarket ? exitDay : days + unbondingDays;
+  const effectiveApy = principal > 0 && liquidDay > 0 && exitValue > 0
+    ? (Math.pow(exitValue / principal, 365 / liquidDay) - 1) * 100
+    : 0;
+  
+  return {
+    style,
+    lstBalance,
+    exchangeRate,
+    underlyingValue,
+    grossReward,
+    protocolFeePaid,
+    netReward: grossReward - protocolFeePaid,
+    exitValue,
+    exitPremium: exitValue - underlyingValue,
+    liquidDay,
+    liquidDate: addDays(startDate, liquidDay),
+    effectiveApy,
+    timeline
+  };
+}
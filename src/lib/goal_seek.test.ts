@@ -0,0 +1,62 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateStakingRewards } from './calculators';
+import { solveRequiredApr, solveRequiredDays, solveRequiredPrincipal } from './goal_seek';
+
+describe('solveRequiredPrincipal', () => {
+  it('finds the principal for a token target', () => {
+    const result = solveRequiredPrincipal('ETH', { amount: 10 }, { apr: 10, days: 365 });
+    
+    assert.equal(result.feasible, true);
+    assert.ok(Math.abs((result.value ?? 0) - 100) < 1e-9);
+    assert.ok(Math.abs(result.expectedReward - 10) < 1e-9);
+  });
+  
+  it('converts a fiat target with the token price', () => {
+    const result = solveRequiredPrincipal('ETH', { amount: 100, price: 10 }, { apr: 10, days: 365 });
+    assert.ok(Math.abs((result.value ?? 0) - 100) < 1e-9);
+  });
+  
+  it('raises the principal to the minimum stake', () => {
+    const result = solveRequiredPrincipal('ETH', { amount: 0.001 }, { apr: 10, days: 365 });
+    
+    assert.equal(result.value, 0.01);
+    assert.equal(result.adjusted, true);
+    assert.ok(result.message);
+  });
+});
+
+describe('solveRequiredDays', () => {
+  it('rounds up to the first whole day that reaches the target', () => {
+    // 100 DOT * %12 / 365 = günde ~0.0329 DOT; 1 DOT 30.4 günde birikir
+    const result = solveRequiredDays('DOT', { amount: 1 }, { principal: 100, apr: 12 });
+    
+    assert.equal(result.value, 31);
+    assert.ok(result.expectedReward >= 1);
+    assert.ok(calculateStakingRewards({ principal: 100, apr: 12, days: 30 }).interest < 1);
+  });
+  
+  it('reports an unreachable target', () => {
+    const result = solveRequiredDays('ETH', { amount: 10 }, { principal: 100, apr: 0 });
+    
+    assert.equal(result.value, null);
+    assert.equal(result.feasible, false);
+  });
+});
+
+describe('solveRequiredApr', () => {
+  it('finds the APR that compounds to the target', () => {
+    const result = solveRequiredApr('ETH', { amount: 10 }, { principal: 100, days: 365 }, true);
+    const reward = calculateStakingRewards({ principal: 100, days: 365, apr: result.value ?? 0 }, true).interest;
+    
+    assert.equal(result.feasible, true);
+    assert.ok((result.value ?? 0) < 10);
+    assert.ok(Math.abs(reward - 10) < 1e-6);
+  });
+  
+  it('rejects amounts below the minimum stake', () => {
+    const result = solveRequiredApr('ETH', { amount: 1 }, { principal: 0.001, days: 365 });
+    assert.equal(result.feasible, false);
+  });
+});
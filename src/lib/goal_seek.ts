@@ -0,0 +1,234 @@
+import { StakingParameters, calculateStakingRewards } from './calculators';
+import { getStakingConstraints, isValidStakeAmount, isValidStakeDuration } from './staking_constraints';
+
+// Hedef odaklı hesaplamalar için tip tanımlamaları
+export interface RewardTarget {
+  amount: number;   // Hedeflenen ödül
+  price?: number;   // Token fiyatı (verilirse hedef fiat cinsinden kabul edilir)
+}
+
+export interface GoalSeekResult {
+  value: number | null;    // Bulunan değer (çözüm yoksa null)
+  feasible: boolean;       // Kısıtlara uygun bir çözüm var mı?
+  adjusted: boolean;       // Değer kısıtlara uymak için yukarı çekildi mi?
+  expectedReward: number;  // Bulunan değerle beklenen ödül (token)
+  message?: string;        // Çözüm yoksa veya ayarlandıysa açıklama
+}
+
+const MAX_SEARCH_DAYS = 36500;  // En fazla 100 yıl aranır
+const MAX_SEARCH_APR = 10000;   // En fazla %10.000 APR aranır
+const APR_TOLERANCE = 1e-9;
+
+// Hedefi token cinsine çevir
+function getTargetTokens(target: RewardTarget): number {
+  if (target.price === undefined) return target.amount;
+  return target.price > 0 ? target.amount / target.price : Infinity;
+}
+
+function getReward(params: StakingParameters, useCompound: boolean): number {
+  return calculateStakingRewards(params, useCompound).interest;
+}
+
+/**
+ * Hedef ödül için gereken ana parayı bul
+ * @param symbol Coin sembolü
+ * @param target Hedef ödül
+ * @param params Principal dışındaki staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Gereken ana para
+ */
+export function solveRequiredPrincipal(
+  symbol: string,
+  target: RewardTarget,
+  params: Omit<StakingParameters, 'principal'>,
+  useCompound: boolean = false
+): GoalSeekResult {
+  const targetTokens = getTargetTokens(target);
+  
+  if (!isValidStakeDuration(symbol, params.days)) {
+    return {
+      value: null,
+      feasible: false,
+      adjusted: false,
+      expectedReward: 0,
+      message: `${symbol} için ${params.days} günlük stake süresi desteklenmiyor.`
+    };
+  }
+  
+  // Ödül ana parayla doğrusaldır; katkı planı varsa sabit bir kısım eklenir
+  const rewardWithoutPrincipal = getReward({ ...params, principal: 0 }, useCompound);
+  const rewardPerUnit = getReward({ ...params, principal: 1 }, useCompound) - rewardWithoutPrincipal;
+  if (rewardPerUnit <= 0 || !isFinite(targetTokens)) {
+    return {
+      value: null,
+      feasible: false,
+      adjusted: false,
+      expectedReward: 0,
+      message: 'Bu APR ve süreyle hedefe ulaşılamaz.'
+    };
+  }
+  
+  let principal = Math.max(targetTokens - rewardWithoutPrincipal, 0) / rewardPerUnit;
+  let adjusted = false;
+  let message: string | undefined;
+  
+  if (!isValidStakeAmount(symbol, principal)) {
+    principal = getStakingConstraints(symbol)?.minStakeAmount ?? principal;
+    adjusted = true;
+    message = `Hesaplanan miktar minimum stake miktarının altında; ${principal} ${symbol} kullanıldı.`;
+  }
+  
+  return {
+    value: principal,
+    feasible: true,
+    adjusted,
+    expectedReward: rewardWithoutPrincipal + rewardPerUnit * principal,
+    message
+  };
+}
+
+/**
+ * Hedef ödüle ulaşmak için gereken gün sayısını bul
+ * @param symbol Coin sembolü
+ * @param target Hedef ödül
+ * @param params Süre dışındaki staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Gereken tam gün sayısı
+ */
+export function solveRequiredDays(
+  symbol: string,
+  target: RewardTarget,
+  params: Omit<StakingParameters, 'days'>,
+  useCompound: boolean = false
+): GoalSeekResult {
+  const targetTokens = getTargetTokens(target);
+  
+  if (!isValidStakeAmount(symbol, params.principal)) {
+    return {
+      value: null,
+      feasible: false,
+      adjusted: false,
+      expectedReward: 0,
+      message: `Minimum stake miktarı: ${getStakingConstraints(symbol)?.minStakeAmount} ${symbol}`
+    };
+  }
+  
+  const rewardForDays = (days: number) => getReward({ ...params, days }, useCompound);
+  
+  // Üst sınırı ikiye katlayarak bul, sonra ikili arama ile en küçük günü bul
+  let high = 1;
+  while (high < MAX_SEARCH_DAYS && rewardForDays(high) < targetTokens) {
+    high = Math.min(high * 2, MAX_SEARCH_DAYS);
+  }
+  
+  if (rewardForDays(high) < targetTokens) {
+    return {
+      value: null,
+      feasible: false,
+      adjusted: false,
+      expectedReward: 0,
+      message: 'Hedefe makul bir süre içinde ulaşılamaz.'
+    };
+  }
+  
+  let low = 0;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (rewardForDays(mid) >= targetTokens) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  
+  let days = high;
+  let adjusted = false;
+  let message: string | undefined;
+  
+  if (!isValidStakeDuration(symbol, days)) {
+    // Hedef süreyi kapsayan ilk periyodun alt sınırına çek
+    const period = getStakingConstraints(symbol)?.stakingPeriods
+      .filter(p => p.maxDays === null || p.maxDays >= days)
+      .sort((a, b) => a.minDays - b.minDays)[0];
+    
+    if (!period) {
+      return {
+        value: null,
+        feasible: false,
+        adjusted: false,
+        expectedReward: rewardForDays(days),
+        message: `Gereken ${days} gün, ${symbol} için izin verilen en uzun stake süresini aşıyor.`
+      };
+    }
+    
+    days = Math.max(days, period.minDays);
+    adjusted = true;
+    message = `${symbol} için minimum stake süresi ${period.minDays} gün; ${days} gün kullanıldı.`;
+  }
+  
+  return {
+    value: days,
+    feasible: true,
+    adjusted,
+    expectedReward: rewardForDays(days),
+    message
+  };
+}
+
+/**
+ * Hedef ödül için gereken APR'ı bul
+ * @param symbol Coin sembolü
+ * @param target Hedef ödül
+ * @param params APR dışındaki staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Gereken APR (%)
+ */
+export function solveRequiredApr(
+  symbol: string,
+  target: RewardTarget,
+  params: Omit<StakingParameters, 'apr' | 'aprSchedule'>,
+  useCompound: boolean = false
+): GoalSeekResult {
+  const targetTokens = getTargetTokens(target);
+  
+  if (!isValidStakeAmount(symbol, params.principal) || !isValidStakeDuration(symbol, params.days)) {
+    return {
+      value: null,
+      feasible: false,
+      adjusted: false,
+      expectedReward: 0,
+      message: `${symbol} için miktar veya süre kısıtlara uymuyor.`
+    };
+  }
+  
+  const rewardForApr = (apr: number) => getReward({ ...params, apr }, useCompound);
+  
+  if (rewardForApr(MAX_SEARCH_APR) < targetTokens) {
+    return {
+      value: null,
+      feasible: false,
+      adjusted: false,
+      expectedReward: 0,
+      message: 'Hedefe gerçekçi bir APR ile ulaşılamaz.'
+    };
+  }
+  
+  // Ödül APR ile monoton artar; ikili arama
+  let low = 0;
+  let high = MAX_SEARCH_APR;
+  while (high - low > APR_TOLERANCE) {
+    const mid = (low + high) / 2;
+    if (rewardForApr(mid) >= targetTokens) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  
+  return {
+    value: high,
+    feasible: true,
+    adjusted: false,
+    expectedReward: rewardForApr(high)
+  };
+}
@@ -0,0 +1,94 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { YieldPool } from './api/defillama';
+import {
+  calculateImpermanentLoss,
+  createPriceRatioScenarios,
+  getLpValueRatio,
+  getPoolImpermanentLossParameters,
+  getRewardAprFromApy
+} from './impermanent_loss';
+import { createYieldRate } from './yield_rate';
+
+function createPool(overrides: Partial<YieldPool>): YieldPool {
+  return {
+    chain: 'Ethereum',
+    project: 'curve-dex',
+    symbol: 'ETH-STETH',
+    tvlUsd: 100000000,
+    apy: 8,
+    pool: 'curve-eth-steth',
+    ilRisk: 'yes',
+    exposure: 'multi',
+    stablecoin: false,
+    ...overrides
+  };
+}
+
+describe('getLpValueRatio', () => {
+  it('matches 2·√r / (1 + r) for an equal-weight pair', () => {
+    assert.ok(Math.abs(getLpValueRatio([100, 0]) - 2 * Math.SQRT2 / 3) < 1e-12);
+    assert.equal(getLpValueRatio([0, 0]), 1);
+  });
+  
+  it('rejects price changes of -100% or below', () => {
+    assert.throws(() => getLpValueRatio([-100, 0]), /greater than -100%/);
+  });
+});
+
+describe('calculateImpermanentLoss', () => {
+  it('reports the price-only loss and compounds fees on the LP value', () => {
+    const [result] = calculateImpermanentLoss(
+      { principal: 1000, days: 365, feeApy: 10 },
+      [{ name: '+100%', priceChanges: [100, 0] }]
+    );
+    
+    assert.ok(Math.abs(result.impermanentLoss - (1 - 2 * Math.SQRT2 / 3) * 100) < 1e-9);
+    assert.equal(result.holdValue, 1500);
+    assert.ok(Math.abs(result.feeIncome - result.lpValue * 0.1) < 1e-9);
+  });
+  
+  it('pays rewards as simple interest on the principal', () => {
+    const [result] = calculateImpermanentLoss(
+      { principal: 1000, days: 182.5, feeApy: 0, rewardApr: 20 },
+      createPriceRatioScenarios(2, [0])
+    );
+    
+    assert.ok(Math.abs(result.rewardIncome - 100) < 1e-9);
+    assert.ok(result.beatsHolding);
+  });
+  
+  it('grows the hold side with the hold yield', () => {
+    const [result] = calculateImpermanentLoss(
+      { principal: 1000, days: 365, feeApy: 0, holdYieldRate: createYieldRate(4, 'apy') },
+      createPriceRatioScenarios(2, [0])
+    );
+    
+    assert.ok(Math.abs(result.holdValue - 1040) < 1e-9);
+    assert.equal(result.beatsHolding, false);
+  });
+});
+
+describe('getPoolImpermanentLossParameters', () => {
+  it('derives the fee yield from the total when apyBase is missing', () => {
+    const params = getPoolImpermanentLossParameters(createPool({ apy: 8, apyReward: 3 }), 1000, 365);
+    
+    assert.equal(params.feeApy, 5);
+    assert.equal(params.rewardApr, getRewardAprFromApy(3));
+  });
+  
+  it('uses one weight per pool token', () => {
+    const triPool = createPool({ symbol: 'USDC-USDT-DAI', underlyingTokens: ['0x1', '0x2', '0x3'] });
+    
+    assert.equal(getPoolImpermanentLossParameters(triPool, 1000, 365).weights?.length, 3);
+    assert.equal(getPoolImpermanentLossParameters(createPool({}), 1000, 365).weights?.length, 2);
+  });
+  
+  it('shows no loss for single exposure pools', () => {
+    const params = getPoolImpermanentLossParameters(createPool({ exposure: 'single', ilRisk: 'no' }), 1000, 365);
+    
+    assert.deepEqual(params.weights, [1]);
+    assert.ok(calculateImpermanentLoss(params).every(result => result.impermanentLoss === 0));
+  });
+});
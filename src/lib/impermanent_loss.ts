@@ -0,0 +1,181 @@
+import { YieldPool } from './api/defillama';
+import { YieldRate, createYieldRate, normalizeYieldRate } from './yield_rate';
+
+// Geçici kayıp (impermanent loss) hesaplaması için tip tanımlamaları
+export interface PriceRatioScenario {
+  name: string;            // Senaryo adı
+  priceChanges: number[];  // Pooldaki her tokenın süre sonundaki fiyat değişimi (%)
+}
+
+export interface ImpermanentLossParameters {
+  principal: number;          // Poola yatırılan başlangıç değeri
+  days: number;               // Süre (gün)
+  feeApy: number;             // Pool içinde biriken ücret getirisi (%) (DefiLlama apyBase)
+  rewardApr?: number;         // Ayrı tokenla ödenen teşvik getirisi, APR (%) (bkz. getRewardAprFromApy)
+  weights?: number[];         // Tokenların pooldaki ağırlıkları (varsayılan: eşit)
+  holdYieldRate?: YieldRate;  // Tokenlar poola yatırılmadan tutulursa kazanılan getiri (örn. Lido stETH)
+}
+
+export interface ImpermanentLossResult {
+  scenario: PriceRatioScenario;
+  holdValue: number;           // Tokenları tutmaya devam etmenin süre sonu değeri
+  lpValue: number;             // Ücretler hariç LP pozisyonunun süre sonu değeri
+  impermanentLoss: number;     // LP'nin tutmaya göre fiyat kaynaklı kaybı (%)
+  feeIncome: number;           // Pool içinde biriken ücret geliri
+  rewardIncome: number;        // Teşvik tokenlarıyla ödenen gelir
+  lpTotalValue: number;        // Ücret ve teşvikler dahil LP değeri
+  netReturn: number;           // LP'nin başlangıç değerine göre getirisi (%)
+  holdReturn: number;          // Tutmanın başlangıç değerine göre getirisi (%)
+  vsHold: number;              // LP'nin tutmaya göre farkı (%)
+  beatsHolding: boolean;       // Ücret ve teşvikler geçici kaybı karşılıyor mu?
+}
+
+// İki tokenlı poollar için ilk tokenın ikinciye göre fiyat değişimi senaryoları (%)
+export const DEFAULT_PRICE_RATIO_CHANGES = [-50, -25, -10, -1, 0, 1, 10, 25, 50, 100];
+
+/**
+ * Ağırlıklı bir poolda LP değerinin tutma değerine oranını hesapla
+ *
+ * Sabit çarpım (ve Balancer tipi ağırlıklı) poollarda arbitraj sonrası LP
+ * değeri Π rᵢ^wᵢ, tutma değeri Σ wᵢ·rᵢ ile orantılıdır (rᵢ fiyat çarpanı).
+ * Eşit ağırlıklı iki tokenda bu 2·√r / (1 + r) formülüne indirgenir.
+ * @param priceChanges Tokenların fiyat değişimleri (%)
+ * @param weights Token ağırlıkları (varsayılan: eşit)
+ * @returns LP değeri / tutma değeri (1'in altı geçici kayıp)
+ */
+export function getLpValueRatio(priceChanges: number[], weights?: number[]): number {
+  if (priceChanges.length === 0) return 1;
+  
+  const rawWeights = weights && weights.length === priceChanges.length
+    ? weights
+    : priceChanges.map(() => 1);
+  const totalWeight = rawWeights.reduce((sum, weight) => sum + weight, 0);
+  const normalizedWeights = rawWeights.map(weight => weight / totalWeight);
+  const ratios = priceChanges.map(change => 1 + change / 100);
+  
+  if (ratios.some(ratio => ratio <= 0)) {
+    throw new Error('Price changes must be greater than -100%');
+  }
+  
+  const lpMultiplier = ratios.reduce((product, ratio, index) => product * Math.pow(ratio, normalizedWeights[index]), 1);
+  const holdMultiplier = ratios.reduce((sum, ratio, index) => sum + ratio * normalizedWeights[index], 0);
+  return lpMultiplier / holdMultiplier;
+}
+
+/**
+ * Fiyat oranı senaryoları oluştur
+ *
+ * İlk tokenın fiyatı değişirken diğerleri sabit kalır; geçici kayıp yalnızca
+ * fiyatların birbirine oranına bağlı olduğu için bu tüm oran değişimlerini kapsar.
+ * @param tokenCount Pooldaki token sayısı
+ * @param changes İlk tokenın fiyat değişimleri (%)
+ * @returns Fiyat oranı senaryoları
+ */
+export function createPriceRatioScenarios(
+  tokenCount: number = 2,
+  changes: number[] = DEFAULT_PRICE_RATIO_CHANGES
+): PriceRatioScenario[] {
+  return changes.map(change => ({
+    name: `${change > 0 ? '+' : ''}${change}%`,
+    priceChanges: Array.from({ length: Math.max(tokenCount, 1) }, (_, index) => index === 0 ? change : 0)
+  }));
+}
+
+/**
+ * DefiLlama'nın teşvik getirisini (apyReward) APR'a çevir
+ *
+ * DefiLlama teşvikleri günlük bileşik APY olarak yayımlar; teşvikler ayrı
+ * tokenla ödenip poola eklenmediğinden basit faizle APR üzerinden hesaplanır.
+ * @param apyReward Teşvik APY'si (%)
+ * @returns Teşvik APR'ı (%)
+ */
+export function getRewardAprFromApy(apyReward: number): number {
+  return normalizeYieldRate(createYieldRate(apyReward, 'apy')).apr;
+}
+
+/**
+ * Fiyat oranı senaryolarına göre LP getirisini tutmayla karşılaştır
+ *
+ * Ücretler pool rezervlerine eklendiği için LP değerini bileşik olarak büyütür;
+ * teşvikler ayrı tokenla ödendiğinden başlangıç değeri üzerinden basit faizle
+ * hesaplanır. Tutma tarafı holdYieldRate verilirse o getiriyle büyür; böylece
+ * ETH-stETH poolu doğrudan Lido'da stETH tutmakla karşılaştırılabilir.
+ * @param params Pool ve süre parametreleri
+ * @param scenarios Fiyat oranı senaryoları
+ * @returns Senaryo bazında geçici kayıp ve net getiri
+ */
+export function calculateImpermanentLoss(
+  params: ImpermanentLossParameters,
+  scenarios: PriceRatioScenario[] = createPriceRatioScenarios(params.weights?.length ?? 2)
+): ImpermanentLossResult[] {
+  const { principal, days, feeApy, rewardApr = 0, weights, holdYieldRate } = params;
+  const years = days / 365;
+  const feeGrowth = Math.pow(1 + feeApy / 100, years);
+  const holdApy = holdYieldRate ? normalizeYieldRate(holdYieldRate).apy : 0;
+  const holdGrowth = Math.pow(1 + holdApy / 100, years);
+  const rewardIncome = principal * rewardApr / 100 * years;
+  
+  return scenarios.map(scenario => {
+    const tokenWeights = weights && weights.length === scenario.priceChanges.length
+      ? weights
+      : scenario.priceChanges.map(() => 1);
+    const totalWeight = tokenWeights.reduce((sum, weight) => sum + weight, 0);
+    
+    // Tutma değeri: her token başlangıç ağırlığıyla kendi fiyat değişimini izler
+    const priceMultiplier = scenario.priceChanges.reduce(
+      (sum, change, index) => sum + (1 + change / 100) * tokenWeights[index] / totalWeight,
+      0
+    );
+    const holdValue = principal * priceMultiplier * holdGrowth;
+    
+    const valueRatio = getLpValueRatio(scenario.priceChanges, tokenWeights);
+    const lpValue = principal * priceMultiplier * valueRatio;
+    const feeIncome = lpValue * (feeGrowth - 1);
+    const lpTotalValue = lpValue + feeIncome + rewardIncome;
+    
+    return {
+      scenario,
+      holdValue,
+      lpValue,
+      impermanentLoss: (1 - valueRatio) * 100,
+      feeIncome,
+      rewardIncome,
+      lpTotalValue,
+      netReturn: principal > 0 ? (lpTotalValue / principal - 1) * 100 : 0,
+      holdReturn: principal > 0 ? (holdValue / principal - 1) * 100 : 0,
+      vsHold: holdValue > 0 ? (lpTotalValue / holdValue - 1) * 100 : 0,
+      beatsHolding: lpTotalValue >= holdValue
+    };
+  });
+}
+
+/**
+ * DefiLlama poolunun verileriyle geçici kayıp parametreleri oluştur
+ *
+ * Tek varlık maruziyetli poollarda fiyat oranı riski olmadığından tek token
+ * ağırlığı kullanılır ve geçici kayıp sıfır çıkar.
+ * @param pool DefiLlama yield poolu
+ * @param principal Başlangıç değeri
+ * @param days Süre (gün)
+ * @param holdYieldRate Tokenları tutmanın getirisi
+ * @returns Geçici kayıp parametreleri
+ */
+export function getPoolImpermanentLossParameters(
+  pool: YieldPool,
+  principal: number,
+  days: number,
+  holdYieldRate?: YieldRate
+): ImpermanentLossParameters {
+  const tokenCount = pool.exposure === 'single'
+    ? 1
+    : pool.underlyingTokens?.length || pool.symbol.split('-').length;
+  
+  return {
+    principal,
+    days,
+    feeApy: pool.apyBase ?? Math.max(pool.apy - (pool.apyReward ?? 0), 0),
+    rewardApr: getRewardAprFromApy(pool.apyReward ?? 0),
+    weights: Array.from({ length: tokenCount }, () => 1),
+    holdYieldRate
+  };
+}
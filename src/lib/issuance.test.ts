@@ -0,0 +1,86 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateProtocolApr, createIssuanceAprSchedule, getIssuanceModel, projectAprAtStakedRatio } from './issuance';
+
+function assertClose(actual: number, expected: number, tolerance: number = 1e-9) {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} != ${expected}`);
+}
+
+describe('calculateProtocolApr', () => {
+  it('splits the fixed DOT issuance across the staked supply', () => {
+    const projection = calculateProtocolApr('DOT');
+    
+    assert.ok(projection);
+    assert.equal(projection.stakedRatio, 0.52);
+    assertClose(projection.inflationRate, 120000000 / 1540000000 * 100);
+    assertClose(projection.apr, 12.74, 0.01);
+  });
+  
+  it('lowers the ETH APR with the square root of the total stake', () => {
+    const low = calculateProtocolApr('ETH', { stakedRatio: 0.2 });
+    const high = calculateProtocolApr('ETH', { stakedRatio: 0.4 });
+    
+    assert.ok(low && high);
+    assertClose(low.apr / high.apr, Math.SQRT2);
+  });
+  
+  it('accepts the total stake instead of the ratio', () => {
+    const projection = calculateProtocolApr('ETH', { totalStaked: 60350000 });
+    
+    assert.ok(projection);
+    assertClose(projection.stakedRatio, 0.5);
+  });
+  
+  it('keeps ATOM inflation within its bounds', () => {
+    // Hedefin çok üstündeki bağlı oran enflasyonu alt sınıra çeker
+    const projection = calculateProtocolApr('ATOM', { stakedRatio: 0.9, yearsAhead: 1 });
+    
+    assert.ok(projection);
+    assert.equal(projection.inflationRate, 7);
+  });
+  
+  it('reduces SOL inflation by the disinflation rate each year', () => {
+    const projection = calculateProtocolApr('SOL', { yearsAhead: 1 });
+    
+    assert.ok(projection);
+    assertClose(projection.inflationRate, 4.6 * 0.85);
+  });
+  
+  it('rejects staked ratios outside (0, 1]', () => {
+    assert.throws(() => calculateProtocolApr('DOT', { stakedRatio: 0 }), /between 0 and 1/);
+    assert.throws(() => calculateProtocolApr('DOT', { stakedRatio: 1.5 }), /between 0 and 1/);
+  });
+  
+  it('returns null for coins without a model', () => {
+    assert.equal(getIssuanceModel('ALGO'), null);
+    assert.equal(calculateProtocolApr('ALGO'), null);
+  });
+});
+
+describe('projectAprAtStakedRatio', () => {
+  it('reports the APR change at the target ratio', () => {
+    const projection = projectAprAtStakedRatio('DOT', 0.26);
+    
+    assert.ok(projection);
+    assertClose(projection.aprMultiplier, 2);
+    assertClose(projection.aprChange, projection.current.apr);
+  });
+});
+
+describe('createIssuanceAprSchedule', () => {
+  it('scales the platform APR linearly towards the projected APR', () => {
+    const schedule = createIssuanceAprSchedule('ETH', 3, 0.56, 365);
+    
+    assert.ok(schedule);
+    assert.equal(schedule.length, 1);
+    assert.equal(schedule[0].days, 365);
+    assert.equal(schedule[0].apr, 3);
+    assertClose(schedule[0].endApr ?? 0, 3 / Math.SQRT2);
+    assert.equal(schedule[0].curve, 'linear');
+  });
+  
+  it('returns null for coins without a model', () => {
+    assert.equal(createIssuanceAprSchedule('ALGO', 5, 0.5, 365), null);
+  });
+});
@@ -0,0 +1,265 @@
+import { AprSegment } from './calculators';
+import { getStakingConstraints } from './staking_constraints';
+
+// Protokol ihraç modelleri için tip tanımlamaları
+export type IssuanceModelType = 'sqrt-issuance' | 'fixed-issuance' | 'bonded-inflation' | 'disinflation' | 'reserve';
+
+interface BaseIssuanceModel {
+  symbol: string;       // stakingConstraints'teki coin sembolü
+  supply: number;       // Stake oranının hesaplandığı toplam / dolaşımdaki arz (token)
+  description: string;  // Modelin kısa açıklaması
+}
+
+// ETH: yıllık ihraç toplam stake'in karekökü ile büyür, APR = k / √stake
+export interface SqrtIssuanceModel extends BaseIssuanceModel {
+  type: 'sqrt-issuance';
+  issuanceConstant: number;   // APR = issuanceConstant / √(toplam stake)
+}
+
+// DOT: her yıl stake oranından bağımsız sabit miktarda token basılır
+export interface FixedIssuanceModel extends BaseIssuanceModel {
+  type: 'fixed-issuance';
+  annualIssuance: number;   // Yıllık basılan token
+  treasuryShare: number;    // İhraçtan hazineye giden pay (%)
+}
+
+// ATOM: enflasyon hedef bağlı oranın altında artar, üstünde azalır ve sınırlar içinde kalır
+export interface BondedInflationModel extends BaseIssuanceModel {
+  type: 'bonded-inflation';
+  minInflation: number;         // Alt sınır (%)
+  maxInflation: number;         // Üst sınır (%)
+  goalBonded: number;           // Hedef bağlı oran (0-1)
+  inflationRateChange: number;  // Enflasyonun yılda en fazla değişimi (% puan)
+  communityTax: number;         // Ödüllerden topluluk havuzuna giden pay (%)
+}
+
+// SOL: enflasyon her yıl sabit oranda azalarak uzun dönem seviyesine iner
+export interface DisinflationModel extends BaseIssuanceModel {
+  type: 'disinflation';
+  disinflationRate: number;   // Enflasyonun yıllık azalma oranı (%)
+  terminalInflation: number;  // Uzun dönem enflasyon (%)
+}
+
+// ADA: ödüller rezervden her epoch sabit oranda dağıtılır, stake oranından bağımsızdır
+export interface ReserveModel extends BaseIssuanceModel {
+  type: 'reserve';
+  reserve: number;             // Rezervde kalan token
+  monetaryExpansion: number;   // Her epoch rezervden çıkan pay (%)
+  treasuryCut: number;         // Ödül havuzundan hazineye giden pay (%)
+  epochsPerYear: number;       // Yıllık epoch sayısı
+  pledgeInfluence: number;     // Pledge etkisi (a0); tam pledge olmayan havuzların kaçırdığı ödül
+}
+
+export type IssuanceModel =
+  | SqrtIssuanceModel
+  | FixedIssuanceModel
+  | BondedInflationModel
+  | DisinflationModel
+  | ReserveModel;
+
+export interface IssuanceOptions {
+  stakedRatio?: number;   // Stake oranı (0-1) (verilmezse stakingConstraints'teki oran)
+  totalStaked?: number;   // Toplam stake (token) (verilirse stakedRatio yerine kullanılır)
+  yearsAhead?: number;    // Zamana bağlı modellerde kaç yıl sonrası (varsayılan: 0)
+}
+
+export interface IssuanceProjection {
+  symbol: string;
+  stakedRatio: number;     // Kullanılan stake oranı (0-1)
+  totalStaked: number;     // Kullanılan toplam stake (token)
+  inflationRate: number;   // Stake ödülleri için yıllık ihraç, arza oranla (%)
+  apr: number;             // Komisyon öncesi protokol APR'ı (%)
+}
+
+export interface StakedRatioProjection {
+  current: IssuanceProjection;    // Bugünkü stake oranıyla
+  projected: IssuanceProjection;  // Hedef stake oranıyla
+  aprChange: number;              // APR'daki değişim (% puan)
+  aprMultiplier: number;          // Hedef APR / bugünkü APR
+}
+
+// stakingConstraints sembollerine göre ihraç modelleri (arz ve rezerv değerleri yaklaşıktır)
+const issuanceModels: IssuanceModel[] = [
+  {
+    symbol: "ETH",
+    type: "sqrt-issuance",
+    supply: 120700000,
+    description: "Konsensüs ödülleri toplam stake'in kareköküyle artar; stake arttıkça APR düşer",
+    issuanceConstant: 166.3
+  },
+  {
+    symbol: "SOL",
+    type: "disinflation",
+    supply: 590000000,
+    description: "Enflasyon yılda %15 azalarak %1.5'e iner; ihraç stake oranından bağımsızdır",
+    disinflationRate: 15,
+    terminalInflation: 1.5
+  },
+  {
+    symbol: "ADA",
+    type: "reserve",
+    supply: 36000000000,
+    description: "Her epoch rezervin %0.3'ü dağıtılır; ödül havuzu stake edenler arasında paylaşılır",
+    reserve: 7000000000,
+    monetaryExpansion: 0.3,
+    treasuryCut: 20,
+    epochsPerYear: 73,
+    pledgeInfluence: 0.3
+  },
+  {
+    symbol: "DOT",
+    type: "fixed-issuance",
+    supply: 1540000000,
+    description: "Yılda sabit 120M DOT basılır; stake oranı arttıkça ödül daha çok stake'e bölünür",
+    annualIssuance: 120000000,
+    treasuryShare: 15
+  },
+  {
+    symbol: "ATOM",
+    type: "bonded-inflation",
+    supply: 390000000,
+    description: "Bağlı oran %67 hedefin altındaysa enflasyon %10'a kadar artar, üstündeyse %7'ye kadar düşer",
+    minInflation: 7,
+    maxInflation: 10,
+    goalBonded: 0.67,
+    inflationRateChange: 13,
+    communityTax: 10
+  }
+];
+
+/**
+ * Coin için protokol ihraç modelini getir
+ * @param symbol Coin sembolü
+ * @returns İhraç modeli, tanımlı değilse null
+ */
+export function getIssuanceModel(symbol: string): IssuanceModel | null {
+  const normalizedSymbol = symbol.toUpperCase();
+  return issuanceModels.find(model => model.symbol === normalizedSymbol) || null;
+}
+
+// Modelin stake ödülleri için yıllık ihraç oranı (arza göre %)
+function getInflation(model: IssuanceModel, stakedRatio: number, totalStaked: number, yearsAhead: number): number {
+  const currentInflation = getStakingConstraints(model.symbol)?.inflationRate;
+  
+  switch (model.type) {
+    case 'sqrt-issuance':
+      return model.issuanceConstant * Math.sqrt(totalStaked) / model.supply * 100;
+    case 'fixed-issuance':
+      return model.annualIssuance / model.supply * 100;
+    case 'bonded-inflation': {
+      // Enflasyon her yıl (1 - bağlı oran / hedef) * değişim hızı kadar kayar
+      const { minInflation, maxInflation, goalBonded, inflationRateChange } = model;
+      const start = currentInflation ?? maxInflation;
+      const drift = (1 - stakedRatio / goalBonded) * inflationRateChange * yearsAhead;
+      return Math.min(Math.max(start + drift, minInflation), maxInflation);
+    }
+    case 'disinflation': {
+      const start = currentInflation ?? model.terminalInflation;
+      return Math.max(start * Math.pow(1 - model.disinflationRate / 100, yearsAhead), model.terminalInflation);
+    }
+    case 'reserve': {
+      const { reserve, monetaryExpansion, treasuryCut, epochsPerYear, pledgeInfluence } = model;
+      const yearlyRewards = reserve * (1 - Math.pow(1 - monetaryExpansion / 100, epochsPerYear));
+      return yearlyRewards * (1 - treasuryCut / 100) / (1 + pledgeInfluence) / model.supply * 100;
+    }
+  }
+}
+
+// İhracın stake edenlere kalan payı (0-1)
+function getStakerShare(model: IssuanceModel): number {
+  switch (model.type) {
+    case 'bonded-inflation':
+      return 1 - model.communityTax / 100;
+    case 'fixed-issuance':
+      return 1 - model.treasuryShare / 100;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Stake oranına göre protokolün beklenen APR'ını hesapla
+ *
+ * APR, stake edenlere giden yıllık ihracın toplam stake'e oranıdır ve
+ * platform / validatör komisyonu öncesidir. ETH'de yalnızca konsensüs ödülleri
+ * modellenir; işlem ücretleri ve MEV dahil değildir.
+ * @param symbol Coin sembolü
+ * @param options Stake oranı veya toplam stake
+ * @returns İhraç ve APR, model tanımlı değilse null
+ */
+export function calculateProtocolApr(symbol: string, options: IssuanceOptions = {}): IssuanceProjection | null {
+  const model = getIssuanceModel(symbol);
+  if (!model) return null;
+  
+  const stakedRatio = options.totalStaked !== undefined
+    ? options.totalStaked / model.supply
+    : options.stakedRatio ?? getStakingConstraints(model.symbol)?.stakedRatio;
+  
+  if (stakedRatio === undefined || stakedRatio <= 0 || stakedRatio > 1) {
+    throw new Error(`Staked ratio for ${model.symbol} must be between 0 and 1`);
+  }
+  
+  const totalStaked = stakedRatio * model.supply;
+  const inflationRate = getInflation(model, stakedRatio, totalStaked, options.yearsAhead ?? 0);
+  
+  return {
+    symbol: model.symbol,
+    stakedRatio,
+    totalStaked,
+    inflationRate,
+    apr: inflationRate * getStakerShare(model) / stakedRatio
+  };
+}
+
+/**
+ * Stake oranı hedef değere çıkarsa (veya düşerse) APR'ın nasıl değişeceğini hesapla
+ * @param symbol Coin sembolü
+ * @param targetRatio Hedef stake oranı (0-1)
+ * @param yearsAhead Hedef orana ulaşılan süre (yıl) (zamana bağlı modeller için)
+ * @returns Bugünkü ve hedef orandaki APR, model tanımlı değilse null
+ */
+export function projectAprAtStakedRatio(
+  symbol: string,
+  targetRatio: number,
+  yearsAhead: number = 0
+): StakedRatioProjection | null {
+  const current = calculateProtocolApr(symbol);
+  const projected = calculateProtocolApr(symbol, { stakedRatio: targetRatio, yearsAhead });
+  if (!current || !projected) return null;
+  
+  return {
+    current,
+    projected,
+    aprChange: projected.apr - current.apr,
+    aprMultiplier: current.apr > 0 ? projected.apr / current.apr : 1
+  };
+}
+
+/**
+ * Stake oranı süre boyunca hedefe doğru değişirken platform APR'ı için takvim oluştur
+ *
+ * Platformun bugünkü APR'ı protokol APR'ındaki oransal değişimle ölçeklenir;
+ * böylece platform komisyonu korunur. Oranın süre boyunca doğrusal değiştiği
+ * varsayılır.
+ * @param symbol Coin sembolü
+ * @param platformApr Platformun bugünkü APR'ı (%)
+ * @param targetRatio Süre sonundaki stake oranı (0-1)
+ * @param days Staking süresi (gün)
+ * @returns Değişken APR takvimi, model tanımlı değilse null
+ */
+export function createIssuanceAprSchedule(
+  symbol: string,
+  platformApr: number,
+  targetRatio: number,
+  days: number
+): AprSegment[] | null {
+  const projection = projectAprAtStakedRatio(symbol, targetRatio, days / 365);
+  if (!projection) return null;
+  
+  return [{
+    days,
+    apr: platformApr,
+    endApr: platformApr * projection.aprMultiplier,
+    curve: 'linear'
+  }];
+}
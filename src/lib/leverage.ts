@@ -0,0 +1,148 @@
+import { StakingParameters, StakingResult, aprToApy, calculateStakingRewards } from './calculators';
+
+// Kaldıraçlı staking döngüsü için tip tanımlamaları
+export interface LeverageLoopParameters {
+  staking: StakingParameters;   // LST staking parametreleri (principal = kendi sermaye)
+  ltv: number;                  // Her döngüde teminata karşı borç alınan oran (%)
+  liquidationLtv?: number;      // Protokolün likidasyon eşiği (%) (varsayılan: LTV + 5)
+  borrowApr: number;            // Borç faiz oranı (%) (saniye bazında, sürekli bileşik kabul edilir)
+  loops: number;                // Borç alıp yeniden stake etme döngüsü sayısı
+  depegTolerance: number;       // Katlanılabilecek en yüksek LST / varlık iskontosu (%)
+  liquidationPenalty?: number;  // Likidasyonda borç üzerinden kesilen ceza (%) (varsayılan: 5)
+  depegScenarios?: number[];    // Stres tablosundaki iskonto senaryoları (%)
+}
+
+// Stres tablosunda bir iskonto senaryosu
+export interface DepegScenario {
+  depeg: number;          // LST'nin varlığa göre iskontosu (%)
+  healthFactor: number;   // Sağlık faktörü (1'in altı likidasyon)
+  liquidated: boolean;    // Pozisyon likide olur mu?
+  equity: number;         // Kalan kendi sermaye (varlık cinsinden)
+  equityChange: number;   // Kendi sermayedeki değişim (%)
+}
+
+export interface LeverageLoopResult {
+  collateral: number;          // Toplam stake edilen LST (varlık karşılığı)
+  debt: number;                // Toplam borç
+  effectiveLeverage: number;   // Teminat / kendi sermaye
+  stakingApy: number;          // Teminatın staking APY'si (%)
+  borrowApy: number;           // Borcun yıllık bileşik maliyeti (%)
+  netApr: number;              // Kaldıraçlı net APR (%)
+  netApy: number;              // Süre sonundaki kendi sermayenin yıllıklandırılmış getirisi (%)
+  finalEquity: number;         // Süre sonundaki kendi sermaye
+  stakingResult: StakingResult;  // Teminatın staking sonucu
+  healthFactor: number;        // Başlangıçtaki sağlık faktörü
+  liquidationDepeg: number;    // Başlangıçta likidasyona yol açan iskonto (%)
+  liquidationDepegAtEnd: number;  // Süre sonunda (faizler sonrası) likidasyona yol açan iskonto (%)
+  withinTolerance: boolean;    // Süre boyunca likidasyon iskontosu toleransın üzerinde kalıyor mu?
+  maxSafeLtv: number;          // Tolerans dahilinde kalmak için kullanılabilecek en yüksek LTV (%)
+  stressTable: DepegScenario[];  // İskonto senaryolarına göre stres tablosu
+}
+
+const DEFAULT_DEPEG_SCENARIOS = [0, 1, 2, 5, 10, 20, 30];
+const DEFAULT_LIQUIDATION_MARGIN = 5;
+const DEFAULT_LIQUIDATION_PENALTY = 5;
+
+// Teminat ve borç oranından likidasyona yol açan iskontoyu hesapla (%)
+function getLiquidationDepeg(collateral: number, debt: number, liquidationLtv: number): number {
+  if (debt <= 0) return 100;
+  if (collateral <= 0) return 0;
+  return Math.max(1 - debt / (collateral * liquidationLtv / 100), 0) * 100;
+}
+
+/**
+ * Kaldıraçlı staking döngüsünü hesapla
+ *
+ * Her döngüde LST teminat gösterilip LTV oranında varlık borç alınır ve tekrar
+ * stake edilir; n döngü sonunda teminat P * (1 + L + ... + L^n), borç
+ * P * (L + ... + L^n) olur. Teminatın getirisi calculateStakingRewards ile,
+ * borç maliyeti sürekli bileşik APY ile hesaplanır. Likidasyon iskontosu LST'nin
+ * varlığa göre ne kadar değer kaybederse sağlık faktörünün 1'e düşeceğidir.
+ * @param params Kaldıraç parametreleri
+ * @param useCompound Staking ödülleri bileşik mi?
+ * @returns Net getiri, kaldıraç, likidasyon eşiği ve stres tablosu
+ */
+export function simulateLeverageLoop(
+  params: LeverageLoopParameters,
+  useCompound: boolean = true
+): LeverageLoopResult {
+  const {
+    staking,
+    ltv,
+    borrowApr,
+    depegTolerance,
+    liquidationPenalty = DEFAULT_LIQUIDATION_PENALTY,
+    depegScenarios = DEFAULT_DEPEG_SCENARIOS
+  } = params;
+  const liquidationLtv = params.liquidationLtv ?? Math.min(ltv + DEFAULT_LIQUIDATION_MARGIN, 99);
+  const loops = Math.max(Math.floor(params.loops), 0);
+  const equity = staking.principal;
+  
+  if (ltv < 0 || ltv >= liquidationLtv) {
+    throw new Error(`LTV (${ltv}%) must be below the liquidation threshold (${liquidationLtv}%)`);
+  }
+  
+  // Geometrik seri: her döngü bir öncekinin LTV katı kadar ek teminat getirir
+  const ratio = ltv / 100;
+  let loopMultiplier = 0;
+  for (let loop = 1; loop <= loops; loop++) {
+    loopMultiplier += Math.pow(ratio, loop);
+  }
+  
+  const debt = equity * loopMultiplier;
+  const collateral = equity + debt;
+  const years = staking.days / 365;
+  
+  // Teminat staking getirisi kazanır, borç sürekli bileşik faizle büyür
+  const stakingResult = calculateStakingRewards({ ...staking, principal: collateral }, useCompound);
+  const borrowApy = aprToApy(borrowApr, Infinity);
+  const finalDebt = debt * Math.pow(1 + borrowApy / 100, years);
+  const finalEquity = stakingResult.total - finalDebt;
+  
+  const stakingApy = stakingResult.effectiveApy ?? stakingResult.apy ?? aprToApy(staking.apr, 365);
+  const netApy = equity > 0 && years > 0 && finalEquity > 0
+    ? (Math.pow(finalEquity / equity, 1 / years) - 1) * 100
+    : -100;
+  
+  const liquidationDepeg = getLiquidationDepeg(collateral, debt, liquidationLtv);
+  const liquidationDepegAtEnd = getLiquidationDepeg(stakingResult.total, finalDebt, liquidationLtv);
+  
+  // Borç / teminat oranı döngü sayısı ne olursa olsun LTV'yi aşmaz; bu LTV ile
+  // tolerans kadar iskontoda bile sağlık faktörü 1'in altına düşmez
+  const maxSafeLtv = Math.max(liquidationLtv * (1 - depegTolerance / 100), 0);
+  
+  const stressTable = depegScenarios.map(depeg => {
+    const collateralValue = collateral * (1 - depeg / 100);
+    const healthFactor = debt > 0 ? collateralValue * liquidationLtv / 100 / debt : Infinity;
+    const liquidated = healthFactor < 1;
+    
+    // Likidasyonda borç teminattan cezasıyla birlikte kapatılır
+    const scenarioEquity = collateralValue - debt - (liquidated ? debt * liquidationPenalty / 100 : 0);
+    
+    return {
+      depeg,
+      healthFactor,
+      liquidated,
+      equity: scenarioEquity,
+      equityChange: equity > 0 ? (scenarioEquity / equity - 1) * 100 : 0
+    };
+  });
+  
+  return {
+    collateral,
+    debt,
+    effectiveLeverage: equity > 0 ? collateral / equity : 0,
+    stakingApy,
+    borrowApy,
+    netApr: equity > 0 ? (staking.apr * collateral - borrowApr * debt) / equity : 0,
+    netApy,
+    finalEquity,
+    stakingResult,
+    healthFactor: debt > 0 ? collateral * liquidationLtv / 100 / debt : Infinity,
+    liquidationDepeg,
+    liquidationDepegAtEnd,
+    withinTolerance: Math.min(liquidationDepeg, liquidationDepegAtEnd) > depegTolerance,
+    maxSafeLtv,
+    stressTable
+  };
+}
@@ -0,0 +1,72 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RoundingMode, TokenAmount, divideRounded, parseDecimal } from './money';
+
+describe('divideRounded', () => {
+  const cases: [bigint, bigint, RoundingMode, bigint][] = [
+    [BigInt(7), BigInt(2), 'floor', BigInt(3)],
+    [BigInt(7), BigInt(2), 'ceil', BigInt(4)],
+    [BigInt(7), BigInt(2), 'trunc', BigInt(3)],
+    [BigInt(7), BigInt(2), 'half-up', BigInt(4)],
+    [BigInt(7), BigInt(2), 'half-even', BigInt(4)],
+    [BigInt(5), BigInt(2), 'half-even', BigInt(2)],
+    [BigInt(-7), BigInt(2), 'floor', BigInt(-4)],
+    [BigInt(-7), BigInt(2), 'ceil', BigInt(-3)],
+    [BigInt(-7), BigInt(2), 'trunc', BigInt(-3)],
+    [BigInt(-7), BigInt(2), 'half-up', BigInt(-4)],
+    [BigInt(-5), BigInt(2), 'half-even', BigInt(-2)],
+    [BigInt(7), BigInt(-2), 'floor', BigInt(-4)]
+  ];
+  
+  cases.forEach(([numerator, denominator, mode, expected]) => {
+    it(`${numerator} / ${denominator} with ${mode} is ${expected}`, () => {
+      assert.equal(divideRounded(numerator, denominator, mode), expected);
+    });
+  });
+  
+  it('rejects division by zero', () => {
+    assert.throws(() => divideRounded(BigInt(1), BigInt(0), 'floor'), /Division by zero/);
+  });
+});
+
+describe('parseDecimal', () => {
+  it('parses decimals and exponents without loss', () => {
+    assert.deepEqual(parseDecimal('123.4500'), [BigInt(1234500), 4]);
+    assert.deepEqual(parseDecimal(1.5e-7), [BigInt(15), 8]);
+    assert.deepEqual(parseDecimal('2e3'), [BigInt(2000), 0]);
+    assert.deepEqual(parseDecimal('-0.5'), [BigInt(-5), 1]);
+  });
+  
+  it('rejects invalid input', () => {
+    assert.throws(() => parseDecimal('abc'), /Invalid decimal value/);
+  });
+});
+
+describe('TokenAmount', () => {
+  it('rounds extra digits with the given mode', () => {
+    assert.equal(TokenAmount.fromDecimal('1.23456789', 6, 'floor').units, BigInt(1234567));
+    assert.equal(TokenAmount.fromDecimal('1.23456789', 6, 'ceil').units, BigInt(1234568));
+    assert.equal(TokenAmount.fromDecimal('0.0000025', 6, 'half-even').units, BigInt(2));
+    assert.equal(TokenAmount.fromDecimal('0.0000025', 6, 'half-up').units, BigInt(3));
+  });
+  
+  it('keeps full precision for 18 decimals', () => {
+    const amount = TokenAmount.fromDecimal('0.000000000000000001', 18);
+    assert.equal(amount.units, BigInt(1));
+    assert.equal(amount.add(amount).toDecimalString(), '0.000000000000000002');
+  });
+  
+  it('multiplies by ratios and decimals with explicit rounding', () => {
+    const amount = new TokenAmount(BigInt(1000000), 6);
+    assert.equal(amount.mulRatio(BigInt(1), BigInt(3), 'floor').units, BigInt(333333));
+    assert.equal(amount.mulRatio(BigInt(1), BigInt(3), 'ceil').units, BigInt(333334));
+    assert.equal(amount.mulDecimal('0.0000015', 'half-even').units, BigInt(2));
+  });
+  
+  it('formats and refuses to mix decimals', () => {
+    assert.equal(new TokenAmount(BigInt(1234567), 6).format(2), '1.23');
+    assert.equal(new TokenAmount(BigInt(1235000), 6).format(2, 'half-even'), '1.24');
+    assert.throws(() => TokenAmount.zero(6).add(TokenAmount.zero(18)), /Decimal mismatch/);
+  });
+});
@@ -0,0 +1,184 @@
+// Token miktarları için sabit noktalı (bigint) aritmetik
+export type RoundingMode = 'floor' | 'ceil' | 'trunc' | 'half-up' | 'half-even';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+/**
+ * 10'un kuvvetini bigint olarak hesapla
+ * @param exponent Üs
+ * @returns 10^exponent
+ */
+export function pow10(exponent: number): bigint {
+  let result = ONE;
+  for (let i = 0; i < exponent; i++) {
+    result *= TEN;
+  }
+  return result;
+}
+
+/**
+ * Bigint bölmesini verilen yuvarlama kuralıyla yap
+ * @param numerator Pay
+ * @param denominator Payda (sıfırdan farklı)
+ * @param mode Yuvarlama kuralı
+ * @returns Yuvarlanmış bölüm
+ */
+export function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator === ZERO) {
+    throw new Error('Division by zero');
+  }
+  
+  // İşareti paya taşı
+  if (denominator < ZERO) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  
+  const quotient = numerator / denominator; // Sıfıra doğru keser
+  const remainder = numerator % denominator;
+  if (remainder === ZERO) return quotient;
+  
+  const negative = numerator < ZERO;
+  const doubledRemainder = (negative ? -remainder : remainder) * TWO;
+  
+  switch (mode) {
+    case 'trunc':
+      return quotient;
+    case 'floor':
+      return negative ? quotient - ONE : quotient;
+    case 'ceil':
+      return negative ? quotient : quotient + ONE;
+    case 'half-up':
+      if (doubledRemainder >= denominator) {
+        return negative ? quotient - ONE : quotient + ONE;
+      }
+      return quotient;
+    case 'half-even':
+    default:
+      if (doubledRemainder > denominator || (doubledRemainder === denominator && quotient % TWO !== ZERO)) {
+        return negative ? quotient - ONE : quotient + ONE;
+      }
+      return quotient;
+  }
+}
+
+/**
+ * Ondalık sayıyı tam sayı pay ve 10'un kuvveti payda olarak ayrıştır
+ *
+ * "1.5e-7" gibi üslü gösterimler de desteklenir; dönüşüm kayıpsızdır.
+ * @param value Ondalık sayı veya metin
+ * @returns [pay, ondalık basamak sayısı]
+ */
+export function parseDecimal(value: string | number): [bigint, number] {
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  
+  if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+    throw new Error(`Invalid decimal value: ${value}`);
+  }
+  
+  const [, sign, integerPart, fractionPart = '', exponentPart] = match;
+  const exponent = exponentPart ? parseInt(exponentPart, 10) : 0;
+  let digits = BigInt(`${integerPart || '0'}${fractionPart}`);
+  let scale = fractionPart.length - exponent;
+  
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+  
+  return [sign === '-' ? -digits : digits, scale];
+}
+
+/**
+ * Varlığın kendi ondalık basamağıyla ifade edilen token miktarı
+ *
+ * Miktar en küçük birim (wei, lamport, planck vb.) cinsinden bigint olarak
+ * tutulur; bölme ve oran çarpımları her zaman açık bir yuvarlama kuralı ister.
+ */
+export class TokenAmount {
+  readonly units: bigint;      // En küçük birim cinsinden miktar
+  readonly decimals: number;   // Varlığın ondalık basamak sayısı
+  
+  constructor(units: bigint, decimals: number) {
+    this.units = units;
+    this.decimals = decimals;
+  }
+  
+  static zero(decimals: number): TokenAmount {
+    return new TokenAmount(ZERO, decimals);
+  }
+  
+  // Ondalık değerden oluştur (fazla basamaklar verilen kurala göre yuvarlanır)
+  static fromDecimal(value: string | number, decimals: number, mode: RoundingMode = 'half-even'): TokenAmount {
+    const [digits, scale] = parseDecimal(value);
+    const units = scale <= decimals
+      ? digits * pow10(decimals - scale)
+      : divideRounded(digits, pow10(scale - decimals), mode);
+    return new TokenAmount(units, decimals);
+  }
+  
+  add(other: TokenAmount): TokenAmount {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.units + other.units, this.decimals);
+  }
+  
+  sub(other: TokenAmount): TokenAmount {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.units - other.units, this.decimals);
+  }
+  
+  // Rasyonel bir oranla çarp: miktar * pay / payda
+  mulRatio(numerator: bigint, denominator: bigint, mode: RoundingMode): TokenAmount {
+    return new TokenAmount(divideRounded(this.units * numerator, denominator, mode), this.decimals);
+  }
+  
+  // Ondalık bir oranla çarp (örn. 0.0003287671)
+  mulDecimal(rate: string | number, mode: RoundingMode): TokenAmount {
+    const [numerator, scale] = parseDecimal(rate);
+    return this.mulRatio(numerator, pow10(scale), mode);
+  }
+  
+  compare(other: TokenAmount): number {
+    this.assertSameDecimals(other);
+    if (this.units === other.units) return 0;
+    return this.units < other.units ? -1 : 1;
+  }
+  
+  isZero(): boolean {
+    return this.units === ZERO;
+  }
+  
+  // Tam hassasiyetli ondalık gösterim (sondaki sıfırlar atılır)
+  toDecimalString(): string {
+    const negative = this.units < ZERO;
+    const absolute = negative ? -this.units : this.units;
+    const scale = pow10(this.decimals);
+    const integerPart = (absolute / scale).toString();
+    const fractionPart = (absolute % scale).toString().padStart(this.decimals, '0').replace(/0+$/, '');
+    
+    return `${negative ? '-' : ''}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+  }
+  
+  // Gösterim için basamak sayısını sınırla
+  format(maxFractionDigits: number = this.decimals, mode: RoundingMode = 'half-even'): string {
+    if (maxFractionDigits >= this.decimals) return this.toDecimalString();
+    
+    const factor = pow10(this.decimals - maxFractionDigits);
+    const rounded = divideRounded(this.units, factor, mode);
+    return new TokenAmount(rounded, maxFractionDigits).toDecimalString();
+  }
+  
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+  
+  private assertSameDecimals(other: TokenAmount): void {
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Decimal mismatch: ${this.decimals} vs ${other.decimals}`);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StakingParameters } from './calculators';
+import { calculateNetYield, findOptimalCompounding } from './net_yield';
+
+const START = new Date(2024, 0, 1);
+
+function createStaking(overrides: Partial<StakingParameters> = {}): StakingParameters {
+  return { principal: 1000, apr: 10, days: 60, compoundingFrequency: 1, startDate: START, ...overrides };
+}
+
+describe('calculateNetYield', () => {
+  it('charges claim and restake costs once per compounding cycle', () => {
+    const result = calculateNetYield(createStaking(), { claimCost: 0.01, restakeCost: 0.02 }, true);
+    
+    assert.equal(result.compoundCount, 59);
+    assert.ok(Math.abs(result.transactionCosts - (59 * 0.03 + 0.01)) < 1e-9);
+  });
+  
+  it('skips claim and restake costs while no reward accrues during warmup', () => {
+    const result = calculateNetYield(createStaking({ warmupDays: 30 }), { claimCost: 0.01, restakeCost: 0.02 }, true);
+    
+    // İlk 30 gün ödül birikmez; yeniden stake 30. günün sonundan itibaren başlar
+    assert.equal(result.compoundCount, 29);
+    assert.ok(Math.abs(result.transactionCosts - (29 * 0.03 + 0.01)) < 1e-9);
+  });
+  
+  it('deducts the commission from every reward', () => {
+    const result = calculateNetYield(createStaking(), { commission: 10 });
+    
+    assert.ok(Math.abs(result.commissionPaid - result.grossReward * 0.1) < 1e-9);
+    assert.ok(Math.abs(result.netReward - result.grossReward * 0.9) < 1e-9);
+  });
+});
+
+describe('findOptimalCompounding', () => {
+  it('counts only the compounding cycles after warmup', () => {
+    const fees = { claimCost: 0.01, restakeCost: 0.01 };
+    const withWarmup = findOptimalCompounding(createStaking({ days: 365, warmupDays: 60 }), fees);
+    const daily = withWarmup.standardOptions.find(option => option.compoundingFrequency === 1);
+    
+    assert.ok(daily);
+    assert.equal(daily.result.compoundCount, 365 - 60 - 1);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  StakingParameters,
+  getAccruedRate,
+  getCompoundingFrequency,
+  getPeriodGrowthRate,
+  getRewardPeriods
+} from './calculators';
+
+// Ücret ve işlem maliyetleri için tip tanımlamaları
+export interface FeeParameters {
+  commission?: number;            // Validator / platform komisyonu (ödülden kesilen %)
+  claimCost?: number;             // Ödül talep etme işlem maliyeti (token)
+  restakeCost?: number;           // Yeniden stake işlem maliyeti (token)
+  withdrawalFee?: number;         // Sabit çekim ücreti (token)
+  withdrawalFeePercent?: number;  // Çekilen tutar üzerinden çekim ücreti (%)
+}
+
+export interface NetYieldResult {
+  principal: number;             // Ana para
+  compoundingFrequency: number | null;  // Bileşik döngüsü (gün) (null = bileşik yok)
+  compoundCount: number;         // Yapılan yeniden stake sayısı
+  grossReward: number;           // Komisyon öncesi toplam ödül
+  commissionPaid: number;        // Ödenen komisyon
+  transactionCosts: number;      // Talep ve yeniden stake maliyetleri
+  withdrawalFeePaid: number;     // Ödenen çekim ücreti
+  netReward: number;             // Tüm maliyetler sonrası ödül
+  netTotal: number;              // Çekim sonrası elde kalan tutar
+  netApr: number;                // Net getirinin basit yıllık karşılığı (%)
+  netApy: number;                // Net getirinin yıllıklandırılmış hali (%)
+}
+
+export interface CompoundingOption {
+  label: string;                        // Seçenek adı
+  compoundingFrequency: number | null;  // Bileşik döngüsü (gün) (null = bileşik yok)
+  result: NetYieldResult;
+}
+
+export interface OptimalCompoundingResult {
+  best: CompoundingOption;        // Net getiriyi en yükselten seçenek
+  standardOptions: CompoundingOption[];  // Hazır sıklıkların karşılaştırması
+}
+
+const STANDARD_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly', 'annually'] as const;
+
+const FREQUENCY_LABELS: Record<typeof STANDARD_FREQUENCIES[number], string> = {
+  daily: 'Günlük',
+  weekly: 'Haftalık',
+  monthly: 'Aylık',
+  quarterly: 'Üç Aylık',
+  annually: 'Yıllık'
+};
+
+/**
+ * Komisyon, işlem maliyeti ve çekim ücretleri sonrası net getiri hesapla
+ *
+ * Bileşik modda her döngü sonunda birikmiş ödül talep edilip yeniden stake
+ * edilir ve her seferinde talep + yeniden stake maliyeti ödenir. Ödül
+ * birikmeyen döngülerde (örn. aktivasyon süresinde) işlem yapılmaz. Basit
+ * modda ödüller süre sonunda tek seferde talep edilir.
+ * @param params Staking parametreleri
+ * @param fees Ücret parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Net getiri sonuçları
+ */
+export function calculateNetYield(
+  params: StakingParameters,
+  fees: FeeParameters,
+  useCompound: boolean = false
+): NetYieldResult {
+  const { principal, days, compoundingFrequency = 1, compoundingMode = 'periodic' } = params;
+  const {
+    commission = 0,
+    claimCost = 0,
+    restakeCost = 0,
+    withdrawalFee = 0,
+    withdrawalFeePercent = 0
+  } = fees;
+  const periodLength = compoundingFrequency > 0 ? compoundingFrequency : 1;
+  const commissionRate = commission / 100;
+  
+  let balance = principal;
+  let pendingReward = 0;
+  let grossReward = 0;
+  let commissionPaid = 0;
+  let transactionCosts = 0;
+  let compoundCount = 0;
+  
+  const periodParams = { ...params, startDate: params.startDate ?? new Date() };
+  for (const { start, end, fraction } of getRewardPeriods(periodParams)) {
+    const accruedRate = getAccruedRate(periodParams, start, end);
+    
+    // Basit modda yalnızca stake edilen bakiye kazanır; ödüller bekler
+    const gross = useCompound
+      ? balance * getPeriodGrowthRate(compoundingMode, accruedRate, fraction)
+      : balance * accruedRate;
+    const fee = gross * commissionRate;
+    
+    grossReward += gross;
+    commissionPaid += fee;
+    pendingReward += gross - fee;
+    
+    // Son dönemde ödül yeniden stake edilmez, çekimle birlikte talep edilir
+    if (useCompound && end < days && pendingReward > 0) {
+      balance += pendingReward - claimCost - restakeCost;
+      transactionCosts += claimCost + restakeCost;
+      pendingReward = 0;
+      compoundCount++;
+    }
+  }
+  
+  // Süre sonunda bekleyen ödülü talep et ve her şeyi çek
+  if (pendingReward > 0) {
+    balance += pendingReward - claimCost;
+    transactionCosts += claimCost;
+  }
+  
+  const withdrawalFeePaid = withdrawalFee + balance * withdrawalFeePercent / 100;
+  const netTotal = balance - withdrawalFeePaid;
+  const netReward = netTotal - principal;
+  const years = days / 365;
+  
+  return {
+    principal,
+    compoundingFrequency: useCompound ? periodLength : null,
+    compoundCount,
+    grossReward,
+    commissionPaid,
+    transactionCosts,
+    withdrawalFeePaid,
+    netReward,
+    netTotal,
+    netApr: principal > 0 && years > 0 ? netReward / principal / years * 100 : 0,
+    netApy: principal > 0 && years > 0 && netTotal > 0
+      ? (Math.pow(netTotal / principal, 1 / years) - 1) * 100
+      : -100
+  };
+}
+
+/**
+ * Net getiriyi en yükselten bileşik aralığını bul
+ *
+ * 1 günden staking süresine kadar her tam gün aralığı ve hiç bileşik
+ * yapmama seçeneği denenir. Küçük pozisyonlarda işlem maliyeti ödülü
+ * aştığında en iyi seçenek seyrek bileşik ya da bileşiksiz olur.
+ * @param params Staking parametreleri (compoundingFrequency yok sayılır)
+ * @param fees Ücret parametreleri
+ * @returns En iyi seçenek ve hazır sıklıkların karşılaştırması
+ */
+export function findOptimalCompounding(
+  params: StakingParameters,
+  fees: FeeParameters
+): OptimalCompoundingResult {
+  let best: CompoundingOption = {
+    label: 'Bileşiksiz',
+    compoundingFrequency: null,
+    result: calculateNetYield(params, fees, false)
+  };
+  
+  const maxInterval = Math.max(Math.floor(params.days), 1);
+  for (let interval = 1; interval <= maxInterval; interval++) {
+    const result = calculateNetYield({ ...params, compoundingFrequency: interval }, fees, true);
+    // Eşitlikte daha az işlem gerektiren seçenek kalsın
+    if (result.netReward > best.result.netReward + 1e-12) {
+      best = { label: `${interval} günde bir`, compoundingFrequency: interval, result };
+    }
+  }
+  
+  const standardOptions = STANDARD_FREQUENCIES.map(frequency => {
+    const compoundingFrequency = getCompoundingFrequency(frequency);
+    return {
+      label: FREQUENCY_LABELS[frequency],
+      compoundingFrequency,
+      result: calculateNetYield({ ...params, compoundingFrequency }, fees, true)
+    };
+  });
+  
+  return { best, standardOptions };
+}
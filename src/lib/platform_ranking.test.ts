@@ -0,0 +1,40 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { YieldPool } from './api/defillama';
+import { createRankablePlatform, rankYieldPools } from './platform_ranking';
+
+function createPool(symbol: string, project: string): YieldPool {
+  return {
+    chain: 'Test',
+    project,
+    symbol,
+    tvlUsd: 50000000,
+    apyBase: 6,
+    apyReward: 0,
+    apy: 6,
+    pool: `${project}-${symbol}`,
+    ilRisk: 'no',
+    exposure: 'single',
+    stablecoin: false
+  };
+}
+
+describe('createRankablePlatform', () => {
+  it('takes the lockup from the coin constraints', () => {
+    assert.equal(createRankablePlatform(createPool('ATOM', 'bonded')).lockupDays, 21);
+    assert.equal(createRankablePlatform(createPool('ALGO', 'liquid')).lockupDays, 0);
+  });
+});
+
+describe('rankYieldPools', () => {
+  it('ranks a coin with a 21-day unbonding below an otherwise identical liquid one', () => {
+    const ranked = rankYieldPools([createPool('ATOM', 'bonded'), createPool('ALGO', 'liquid')]);
+    
+    assert.deepEqual(ranked.map(platform => platform.platform.name), ['liquid', 'bonded']);
+    assert.ok(ranked[0].score > ranked[1].score);
+    
+    const lockup = ranked[1].factors.find(factor => factor.factor === 'lockup');
+    assert.ok(lockup && lockup.weight > 0 && lockup.score < 50);
+  });
+});
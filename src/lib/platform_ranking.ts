@@ -0,0 +1,279 @@
+import { YieldPool } from './api/defillama';
+import { FeeParameters, calculateNetYield } from './net_yield';
+import { getLockupDays } from './staking_constraints';
+import { YieldRate, getPoolYieldRate, normalizeYieldRate } from './yield_rate';
+
+// Platform sıralaması için tip tanımlamaları
+export type RankingFactor = 'netYield' | 'tvl' | 'lockup' | 'ilRisk' | 'exposure' | 'emissions';
+
+export type RankingWeights = Record<RankingFactor, number>;
+
+// Sıralanabilir platform (DefiLlama poolu veya statik platform kaydı)
+export interface RankablePlatform {
+  name: string;            // Platform / proje adı
+  symbol: string;          // Stake edilen coin sembolü
+  yieldRate: YieldRate;    // Toplam getiri oranı (APR / APY türüyle)
+  chain?: string;          // Zincir
+  tvlUsd?: number;         // Toplam kilitli değer ($)
+  apyBase?: number;        // Protokol gelirinden gelen APY (%)
+  apyReward?: number;      // Token teşviklerinden (emisyon) gelen APY (%)
+  ilRisk?: string;         // Geçici kayıp riski ('yes' / 'no')
+  il7d?: number;           // Son 7 günde gerçekleşen geçici kayıp (%)
+  exposure?: string;       // Varlık maruziyeti ('single' / 'multi')
+  lockupDays?: number;     // Aktivasyon + çözülme beklemesi (gün) (bilinmiyorsa kilit faktörü puanlanmaz)
+  poolId?: string;         // DefiLlama pool kimliği
+}
+
+export interface RankingOptions {
+  weights?: Partial<RankingWeights>;  // Faktör ağırlıkları (verilmeyenler varsayılan kalır)
+  fees?: FeeParameters;               // Net getiri için ücretler
+}
+
+export interface FactorScore {
+  factor: RankingFactor;
+  score: number;          // Faktör puanı (0-100)
+  weight: number;         // Normalleştirilmiş ağırlık (0-1)
+  contribution: number;   // Toplam puana katkı (score * weight)
+  explanation: string;    // Puanın açıklaması
+}
+
+export interface RankedPlatform {
+  platform: RankablePlatform;
+  rank: number;             // Sıra (1 = en iyi)
+  score: number;            // Ağırlıklı toplam puan (0-100)
+  netApy: number;           // Ücretler sonrası net APY (%)
+  factors: FactorScore[];   // Faktör bazında puanlar
+  summary: string;          // Puanı en çok yükselten ve düşüren faktörler
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  netYield: 0.3,
+  tvl: 0.2,
+  lockup: 0.1,
+  ilRisk: 0.15,
+  exposure: 0.1,
+  emissions: 0.15
+};
+
+const FACTOR_LABELS: Record<RankingFactor, string> = {
+  netYield: 'Net getiri',
+  tvl: 'TVL',
+  lockup: 'Kilit süresi',
+  ilRisk: 'Geçici kayıp',
+  exposure: 'Maruziyet',
+  emissions: 'Emisyon payı'
+};
+
+const NET_YIELD_SCALE = 8;       // Bu net APY'de puan ~%63'e ulaşır; aşırı APY'ler puanı doyurur
+const MIN_TVL_LOG = 4;           // $10K ve altı 0 puan
+const MAX_TVL_LOG = 9;           // $1B ve üstü 100 puan
+const LOCKUP_HALF_LIFE_DAYS = 14;  // Her 14 günlük kilit puanı yarıya indirir
+const UNKNOWN_SCORE = 50;        // Verisi olmayan faktörler için nötr puan
+
+// Puanı 0-100 aralığında tut
+function clampScore(score: number): number {
+  return Math.min(Math.max(score, 0), 100);
+}
+
+/**
+ * DefiLlama poolunu sıralanabilir platforma çevir
+ *
+ * Kilit süresi coinin kısıtlarındaki aktivasyon ve çözülme süresinden alınır;
+ * aynı coinin poollarında eşit olduğu için yalnızca farklı coinleri ayırt eder.
+ * @param pool DefiLlama yield poolu
+ * @param symbol Stake edilen coin sembolü (varsayılan: poolun ilk sembolü)
+ * @returns Sıralanabilir platform
+ */
+export function createRankablePlatform(pool: YieldPool, symbol: string = pool.symbol.split('-')[0]): RankablePlatform {
+  const { warmupDays, unbondingDays } = getLockupDays(symbol);
+  
+  return {
+    name: pool.project,
+    symbol: symbol.toUpperCase(),
+    yieldRate: getPoolYieldRate(pool),
+    chain: pool.chain,
+    tvlUsd: pool.tvlUsd,
+    apyBase: pool.apyBase,
+    apyReward: pool.apyReward,
+    ilRisk: pool.ilRisk,
+    il7d: pool.il7d,
+    exposure: pool.exposure,
+    lockupDays: warmupDays + unbondingDays,
+    poolId: pool.pool
+  };
+}
+
+// Ücretler sonrası bir yıllık net APY
+function getNetApy(platform: RankablePlatform, fees: FeeParameters): number {
+  const result = calculateNetYield({
+    principal: 1000,
+    apr: normalizeYieldRate(platform.yieldRate).apr,
+    days: 365,
+    compoundingFrequency: 1
+  }, fees, true);
+  return result.netApy;
+}
+
+function scoreNetYield(netApy: number): [number, string] {
+  const score = netApy > 0 ? 100 * (1 - Math.exp(-netApy / NET_YIELD_SCALE)) : 0;
+  const note = netApy > 50 ? ' Bu seviyedeki getiriler genellikle sürdürülemez; puan doyuma ulaştı.' : '';
+  return [score, `Ücretler sonrası net APY %${netApy.toFixed(2)}.${note}`];
+}
+
+function scoreTvl(tvlUsd: number | undefined): [number, string] {
+  if (tvlUsd === undefined || tvlUsd <= 0) {
+    return [UNKNOWN_SCORE, 'TVL bilgisi yok.'];
+  }
+  
+  const score = (Math.log10(tvlUsd) - MIN_TVL_LOG) / (MAX_TVL_LOG - MIN_TVL_LOG) * 100;
+  return [score, `TVL $${(tvlUsd / 1000000).toFixed(2)}M; düşük TVL likidite ve güvenlik riskine işaret eder.`];
+}
+
+function scoreLockup(lockupDays: number | undefined): [number, string] {
+  if (lockupDays === undefined) {
+    return [UNKNOWN_SCORE, 'Kilit süresi bilinmiyor; puana katılmadı.'];
+  }
+  
+  const score = 100 * Math.pow(0.5, lockupDays / LOCKUP_HALF_LIFE_DAYS);
+  return [
+    score,
+    lockupDays > 0
+      ? `Aktivasyon ve çözülme boyunca ${lockupDays} gün fonlar kullanılamaz.`
+      : 'Aktivasyon veya çözülme beklemesi yok.'
+  ];
+}
+
+function scoreIlRisk(ilRisk: string | undefined, il7d: number | undefined): [number, string] {
+  if (ilRisk === undefined && il7d === undefined) {
+    return [UNKNOWN_SCORE, 'Geçici kayıp bilgisi yok.'];
+  }
+  
+  const base = ilRisk === 'yes' ? 60 : 100;
+  const realizedLoss = Math.abs(il7d ?? 0);
+  const score = base - realizedLoss * 10;
+  
+  return [
+    score,
+    ilRisk === 'yes'
+      ? `Pool geçici kayıp riski taşıyor${il7d !== undefined ? `; son 7 günde %${realizedLoss.toFixed(2)}` : ''}.`
+      : 'Geçici kayıp riski yok.'
+  ];
+}
+
+function scoreExposure(exposure: string | undefined): [number, string] {
+  switch (exposure) {
+    case 'single':
+      return [100, 'Tek varlık maruziyeti.'];
+    case 'multi':
+      return [40, 'Birden fazla varlığa maruz; fiyat oranı değişimleri getiriyi etkiler.'];
+    default:
+      return [UNKNOWN_SCORE, 'Maruziyet bilgisi yok.'];
+  }
+}
+
+function scoreEmissions(apyBase: number | undefined, apyReward: number | undefined): [number, string] {
+  const base = apyBase ?? 0;
+  const reward = apyReward ?? 0;
+  
+  if (apyBase === undefined && apyReward === undefined) {
+    return [UNKNOWN_SCORE, 'Getirinin kaynağı bilinmiyor.'];
+  }
+  if (base + reward <= 0) {
+    return [UNKNOWN_SCORE, 'Getiri kaynağı ayrıştırılamadı.'];
+  }
+  
+  // Emisyon ödülleri teşvik bitince kaybolur ve genellikle satış baskısı yaratır
+  const emissionShare = reward / (base + reward);
+  return [
+    100 * (1 - emissionShare),
+    `Getirinin %${(emissionShare * 100).toFixed(0)}'i token emisyonlarından geliyor.`
+  ];
+}
+
+// Ağırlıkları varsayılanlarla birleştir ve toplamı 1 olacak şekilde ölçekle
+function normalizeWeights(weights: Partial<RankingWeights> = {}): RankingWeights {
+  const merged = { ...DEFAULT_RANKING_WEIGHTS, ...weights };
+  const total = Object.values(merged).reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  
+  const normalized = { ...merged };
+  (Object.keys(normalized) as RankingFactor[]).forEach(factor => {
+    normalized[factor] = total > 0 ? Math.max(merged[factor], 0) / total : 0;
+  });
+  return normalized;
+}
+
+/**
+ * Bir platformu faktör bazında puanla
+ *
+ * Platformun kilit süresi bilinmiyorsa faktörün ağırlığı sıfırlanır ve diğer
+ * ağırlıklar buna göre ölçeklenir.
+ * @param platform Sıralanabilir platform
+ * @param options Ağırlıklar ve ücretler
+ * @returns Puan ve açıklamalar (sıra 0)
+ */
+export function scorePlatform(platform: RankablePlatform, options: RankingOptions = {}): RankedPlatform {
+  const weights = normalizeWeights(
+    platform.lockupDays === undefined ? { ...options.weights, lockup: 0 } : options.weights
+  );
+  const netApy = getNetApy(platform, options.fees ?? {});
+  
+  const rawScores: Record<RankingFactor, [number, string]> = {
+    netYield: scoreNetYield(netApy),
+    tvl: scoreTvl(platform.tvlUsd),
+    lockup: scoreLockup(platform.lockupDays),
+    ilRisk: scoreIlRisk(platform.ilRisk, platform.il7d),
+    exposure: scoreExposure(platform.exposure),
+    emissions: scoreEmissions(platform.apyBase, platform.apyReward)
+  };
+  
+  const factors = (Object.keys(rawScores) as RankingFactor[]).map(factor => {
+    const [rawScore, explanation] = rawScores[factor];
+    const score = clampScore(rawScore);
+    return {
+      factor,
+      score,
+      weight: weights[factor],
+      contribution: score * weights[factor],
+      explanation
+    };
+  });
+  
+  // Ağırlığı olan faktörler arasında en güçlü ve en zayıf olanı özetle
+  const weighted = factors.filter(factor => factor.weight > 0).sort((a, b) => b.score - a.score);
+  const summary = weighted.length > 0
+    ? `En güçlü yön: ${FACTOR_LABELS[weighted[0].factor]} (${weighted[0].score.toFixed(0)}). ` +
+      `En zayıf yön: ${FACTOR_LABELS[weighted[weighted.length - 1].factor]} (${weighted[weighted.length - 1].score.toFixed(0)}).`
+    : '';
+  
+  return {
+    platform,
+    rank: 0,
+    score: factors.reduce((sum, factor) => sum + factor.contribution, 0),
+    netApy,
+    factors,
+    summary
+  };
+}
+
+/**
+ * Platformları risk ayarlı net getiriye göre sırala
+ * @param platforms Sıralanabilir platformlar
+ * @param options Ağırlıklar ve ücretler
+ * @returns Puana göre azalan sırada platformlar
+ */
+export function rankPlatforms(platforms: RankablePlatform[], options: RankingOptions = {}): RankedPlatform[] {
+  return platforms
+    .map(platform => scorePlatform(platform, options))
+    .sort((a, b) => b.score - a.score)
+    .map((ranked, index) => ({ ...ranked, rank: index + 1 }));
+}
+
+/**
+ * DefiLlama poollarını risk ayarlı net getiriye göre sırala
+ * @param pools DefiLlama yield poolları
+ * @param options Ağırlıklar ve ücretler
+ * @returns Puana göre azalan sırada platformlar
+ */
+export function rankYieldPools(pools: YieldPool[], options: RankingOptions = {}): RankedPlatform[] {
+  return rankPlatforms(pools.map(pool => createRankablePlatform(pool)), options);
+}
@@ -0,0 +1,260 @@
+import { addDays } from 'date-fns';
+import {
+  RewardScheduleRow,
+  StakingParameters,
+  StakingResult,
+  calculateStakingRewards,
+  generateRewardSchedule
+} from './calculators';
+import { coinGeckoApi } from './api/coingecko';
+import { getAssetDecimals, getLockupDays } from './staking_constraints';
+import { YieldRate, normalizeYieldRate } from './yield_rate';
+
+// Portföy hesaplamaları için tip tanımlamaları
+export interface PortfolioPosition {
+  symbol: string;                 // Coin sembolü
+  platform: string;               // Stake edilen platform
+  amount: number;                 // Stake edilen miktar (token)
+  days: number;                   // Staking süresi (gün)
+  yieldRate: YieldRate;           // Platformun getiri oranı (APR / APY türüyle)
+  useCompound?: boolean;          // Bileşik faiz kullanılacak mı?
+  compoundingFrequency?: number;  // Bileşik döngüsü (gün)
+}
+
+export interface Portfolio {
+  name: string;                    // Portföy adı
+  positions: PortfolioPosition[];  // Pozisyonlar
+  startDate?: Date;                // Tüm pozisyonların başlangıç tarihi (varsayılan: bugün)
+}
+
+// Yüzde dağılımıyla tanımlanan pozisyon (örn. %40 ETH / Lido)
+export interface PortfolioAllocation extends Omit<PortfolioPosition, 'amount'> {
+  weight: number;   // Toplam değer içindeki pay (%)
+}
+
+// Sembol bazında fiyatlar (portföy para biriminde)
+export interface PriceMap {
+  [symbol: string]: number;
+}
+
+export interface PositionResult {
+  position: PortfolioPosition;
+  result: StakingResult;      // Pozisyonun staking sonucu
+  price: number;              // Kullanılan fiyat (bilinmiyorsa 0)
+  principalValue: number;     // Ana paranın değeri
+  rewardValue: number;        // Ödülün değeri
+  totalValue: number;         // Süre sonundaki toplam değer
+  apr: number;                // Normalleştirilmiş APR (%)
+  apy: number;                // Gerçekleşen büyümenin yıllıklandırılmış hali (%)
+  weight: number;             // Portföy değerindeki pay (%)
+}
+
+export interface PortfolioTimelinePoint {
+  day: number;           // Başlangıçtan itibaren gün
+  date: Date;            // Tarih
+  rewardValue: number;   // O güne kadar birikmiş toplam ödül değeri
+  totalValue: number;    // Ana para, katkılar ve ödüllerin toplam değeri
+  rewardsBySymbol: { [symbol: string]: number };  // Sembol bazında birikmiş ödül (token)
+}
+
+export interface PortfolioResult {
+  portfolio: Portfolio;
+  positions: PositionResult[];
+  missingPrices: string[];       // Fiyatı bulunamayan semboller (değerlere dahil edilmez)
+  totalPrincipalValue: number;   // Toplam ana para değeri
+  totalRewardValue: number;      // Toplam ödül değeri
+  totalValue: number;            // Süre sonundaki toplam değer
+  weightedApr: number;           // Ana para değerine göre ağırlıklı APR (%)
+  weightedApy: number;           // Ana para değerine göre ağırlıklı APY (%)
+  timeline: PortfolioTimelinePoint[];  // Birleşik ödül zaman çizelgesi
+}
+
+/**
+ * Pozisyonun staking parametrelerini oluştur
+ * @param position Portföy pozisyonu
+ * @param startDate Başlangıç tarihi
+ * @returns Staking parametreleri (aktivasyon, çözülme ve ondalık basamak dahil)
+ */
+export function getPositionParameters(position: PortfolioPosition, startDate?: Date): StakingParameters {
+  return {
+    principal: position.amount,
+    apr: normalizeYieldRate(position.yieldRate).apr,
+    days: position.days,
+    compoundingFrequency: position.compoundingFrequency,
+    startDate,
+    ...getLockupDays(position.symbol),
+    decimals: getAssetDecimals(position.symbol)
+  };
+}
+
+/**
+ * Toplam değer ve yüzde dağılımından portföy oluştur
+ * @param name Portföy adı
+ * @param totalValue Yatırılacak toplam değer
+ * @param allocations Yüzde dağılımı
+ * @param prices Sembol bazında fiyatlar
+ * @returns Token miktarlarıyla portföy
+ */
+export function createPortfolioFromAllocations(
+  name: string,
+  totalValue: number,
+  allocations: PortfolioAllocation[],
+  prices: PriceMap
+): Portfolio {
+  const totalWeight = allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+  
+  return {
+    name,
+    positions: allocations.map(({ weight, ...position }) => {
+      const price = prices[position.symbol];
+      if (!price || price <= 0) {
+        throw new Error(`No price available for ${position.symbol}`);
+      }
+      
+      // Ağırlıklar toplamı 100 olmasa da oranlanarak dağıtılır
+      const value = totalWeight > 0 ? totalValue * weight / totalWeight : 0;
+      return { ...position, amount: value / price };
+    })
+  };
+}
+
+// Verilen güne kadar tamamlanan son takvim satırını bul
+function getRowOnDay(rows: RewardScheduleRow[], periodEnds: number[], day: number): RewardScheduleRow | null {
+  let row: RewardScheduleRow | null = null;
+  for (let index = 0; index < rows.length && periodEnds[index] <= day; index++) {
+    row = rows[index];
+  }
+  return row;
+}
+
+/**
+ * Portföydeki her pozisyonu hesapla ve tek bir sonuçta birleştir
+ *
+ * Fiyatı bilinmeyen pozisyonlar token cinsinden hesaplanır ama toplam değere
+ * ve ağırlıklı oranlara katılmaz. Zaman çizelgesi, herhangi bir pozisyonda
+ * ödül ödenen her gün için bir nokta içerir.
+ * @param portfolio Portföy
+ * @param prices Sembol bazında fiyatlar
+ * @returns Birleşik portföy sonucu
+ */
+export function analyzePortfolio(portfolio: Portfolio, prices: PriceMap): PortfolioResult {
+  const startDate = portfolio.startDate ?? new Date();
+  const missingPrices = new Set<string>();
+  
+  const analyzed = portfolio.positions.map(position => {
+    const params = getPositionParameters(position, startDate);
+    const useCompound = position.useCompound ?? false;
+    const result = calculateStakingRewards(params, useCompound);
+    const rows = generateRewardSchedule(params, useCompound, startDate);
+    const price = prices[position.symbol] ?? 0;
+    
+    if (price <= 0) {
+      missingPrices.add(position.symbol);
+    }
+    
+    const years = (result.lockedDays ?? position.days) / 365;
+    const invested = result.total - result.interest;
+    const growth = invested > 0 ? result.total / invested : 1;
+    
+    let elapsedDays = 0;
+    return {
+      rows,
+      periodEnds: rows.map(row => (elapsedDays += row.days)),
+      positionResult: {
+        position,
+        result,
+        price,
+        principalValue: invested * price,
+        rewardValue: result.interest * price,
+        totalValue: result.total * price,
+        apr: params.apr,
+        apy: years > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : 0,
+        weight: 0
+      }
+    };
+  });
+  
+  const positions = analyzed.map(item => item.positionResult);
+  const totalPrincipalValue = positions.reduce((sum, item) => sum + item.principalValue, 0);
+  const totalRewardValue = positions.reduce((sum, item) => sum + item.rewardValue, 0);
+  
+  positions.forEach(item => {
+    item.weight = totalPrincipalValue > 0 ? item.principalValue / totalPrincipalValue * 100 : 0;
+  });
+  
+  // Birleşik zaman çizelgesi: herhangi bir pozisyonun dönem sonu olan her gün
+  const days = Array.from(new Set(analyzed.flatMap(item => item.periodEnds))).sort((a, b) => a - b);
+  const timeline = days.map(day => {
+    const rewardsBySymbol: { [symbol: string]: number } = {};
+    let rewardValue = 0;
+    let totalValue = 0;
+    
+    analyzed.forEach(({ rows, periodEnds, positionResult }) => {
+      const { position, price } = positionResult;
+      const row = getRowOnDay(rows, periodEnds, day);
+      const reward = row ? row.cumulativeReward : 0;
+      const deposits = row ? row.cumulativeDeposits : 0;
+      
+      rewardsBySymbol[position.symbol] = (rewardsBySymbol[position.symbol] ?? 0) + reward;
+      rewardValue += reward * price;
+      totalValue += (position.amount + deposits + reward) * price;
+    });
+    
+    return {
+      day,
+      date: addDays(startDate, day),
+      rewardValue,
+      totalValue,
+      rewardsBySymbol
+    };
+  });
+  
+  return {
+    portfolio,
+    positions,
+    missingPrices: Array.from(missingPrices),
+    totalPrincipalValue,
+    totalRewardValue,
+    totalValue: totalPrincipalValue + totalRewardValue,
+    weightedApr: positions.reduce((sum, item) => sum + item.apr * item.weight / 100, 0),
+    weightedApy: positions.reduce((sum, item) => sum + item.apy * item.weight / 100, 0),
+    timeline
+  };
+}
+
+/**
+ * CoinGecko fiyatlarını sembol bazında getir
+ * @param symbols Coin sembolleri
+ * @param currency Para birimi
+ * @returns Sembol bazında fiyatlar (bulunamayanlar hariç)
+ */
+export async function fetchPortfolioPrices(symbols: string[], currency: string = 'usd'): Promise<PriceMap> {
+  const uniqueSymbols = Array.from(new Set(symbols));
+  const coinIds = await Promise.all(uniqueSymbols.map(symbol => coinGeckoApi.getIdFromSymbol(symbol)));
+  const validCoinIds = coinIds.filter((id): id is string => !!id);
+  
+  if (validCoinIds.length === 0) return {};
+  
+  const prices = await coinGeckoApi.getPrices(validCoinIds, currency);
+  const priceMap: PriceMap = {};
+  
+  uniqueSymbols.forEach((symbol, index) => {
+    const id = coinIds[index];
+    if (id && prices[id] && prices[id][currency]) {
+      priceMap[symbol] = prices[id][currency];
+    }
+  });
+  
+  return priceMap;
+}
+
+/**
+ * Portföyü güncel CoinGecko fiyatlarıyla hesapla
+ * @param portfolio Portföy
+ * @param currency Para birimi
+ * @returns Birleşik portföy sonucu
+ */
+export async function fetchPortfolioAnalysis(portfolio: Portfolio, currency: string = 'usd'): Promise<PortfolioResult> {
+  const prices = await fetchPortfolioPrices(portfolio.positions.map(position => position.symbol), currency);
+  return analyzePortfolio(portfolio, prices);
+}
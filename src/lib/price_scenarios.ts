@@ -0,0 +1,170 @@
+import {
+  StakingParameters,
+  StakingResult,
+  calculateStakingRewards,
+  generateRewardSchedule
+} from './calculators';
+
+// Fiyat senaryoları için tip tanımlamaları
+export interface PricePath {
+  name: string;                      // Senaryo adı
+  endPrice: number;                  // Staking sonundaki fiyat
+  curve?: 'linear' | 'geometric';    // Bugünden bitişe fiyat geçişi (varsayılan: geometric)
+}
+
+export interface PriceScenarioPreset {
+  name: string;          // Senaryo anahtarı
+  label: string;         // Gösterim adı
+  priceChange: number;   // Süre sonundaki fiyat değişimi (%)
+}
+
+export interface FiatProjectionPoint {
+  date: Date;            // Dönem sonu tarihi
+  price: number;         // O tarihteki varsayılan fiyat
+  tokenBalance: number;  // Ana para + birikmiş ödül (token)
+  fiatValue: number;     // Token bakiyesinin fiat değeri
+}
+
+export interface ScenarioResult {
+  name: string;            // Senaryo adı
+  endPrice: number;        // Süre sonundaki fiyat
+  fiatPrincipal: number;   // Ana para ve katkıların süre sonundaki fiat değeri
+  fiatReward: number;      // Ödüllerin süre sonundaki fiat değeri
+  fiatValue: number;       // Toplam fiat değer (ana para + ödül)
+  profitVsSelling: number; // Bugün satmaya göre fark (fiat)
+  returnPercent: number;   // Bugün satmaya göre getiri (%)
+  beatsSelling: boolean;   // Staking bugün satmaktan iyi mi?
+  timeline: FiatProjectionPoint[];  // Dönem dönem fiat değer
+}
+
+export interface ScenarioAnalysis {
+  currentPrice: number;     // Bugünkü fiyat
+  sellTodayValue: number;   // Ana para ve katkıları bugünkü fiyatla satmanın fiat değeri
+  breakEvenPrice: number;   // Staking'in bugün satmakla eşitlendiği bitiş fiyatı
+  breakEvenChange: number;  // Başabaş fiyatın bugüne göre değişimi (%)
+  staking: StakingResult;   // Token cinsinden hesaplama sonucu
+  scenarios: ScenarioResult[];
+}
+
+// Hazır ayı / baz / boğa senaryoları
+export const PRICE_SCENARIO_PRESETS: PriceScenarioPreset[] = [
+  { name: 'bear', label: 'Ayı', priceChange: -50 },
+  { name: 'base', label: 'Baz', priceChange: 0 },
+  { name: 'bull', label: 'Boğa', priceChange: 100 }
+];
+
+/**
+ * Hazır senaryolardan fiyat yolları oluştur
+ * @param currentPrice Bugünkü fiyat
+ * @param presets Kullanılacak senaryolar
+ * @returns Fiyat yolları
+ */
+export function createPresetPaths(
+  currentPrice: number,
+  presets: PriceScenarioPreset[] = PRICE_SCENARIO_PRESETS
+): PricePath[] {
+  return presets.map(preset => ({
+    name: preset.label,
+    endPrice: currentPrice * (1 + preset.priceChange / 100)
+  }));
+}
+
+/**
+ * Fiyat yoluna göre belirli bir gündeki fiyatı bul
+ * @param path Fiyat yolu
+ * @param currentPrice Bugünkü fiyat
+ * @param day Başlangıçtan itibaren geçen gün
+ * @param totalDays Toplam süre (gün)
+ * @returns O günkü fiyat
+ */
+export function getPriceOnDay(
+  path: PricePath,
+  currentPrice: number,
+  day: number,
+  totalDays: number
+): number {
+  if (totalDays <= 0) return path.endPrice;
+  
+  const position = Math.min(Math.max(day / totalDays, 0), 1);
+  
+  // Geometrik geçiş sabit yüzdesel büyüme varsayar; sıfır fiyatta lineere düş
+  if (path.curve !== 'linear' && currentPrice > 0 && path.endPrice > 0) {
+    return currentPrice * Math.pow(path.endPrice / currentPrice, position);
+  }
+  
+  return currentPrice + (path.endPrice - currentPrice) * position;
+}
+
+/**
+ * Staking sonucunu fiyat senaryolarıyla fiat cinsinden projekte et
+ *
+ * Karşılaştırma bazı, ana para ve katkı planıyla eklenen tokenların tamamının
+ * bugünkü fiyatla satılmasıdır; böylece başabaş fiyatı ve getiri yalnızca
+ * ödüllerin fiyat değişimini ne kadar telafi ettiğini gösterir.
+ * @param params Staking parametreleri
+ * @param currentPrice Bugünkü fiyat
+ * @param paths Fiyat yolları (verilmezse hazır senaryolar)
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @param startDate Staking başlangıç tarihi
+ * @returns Senaryo analizi
+ */
+export function projectFiatScenarios(
+  params: StakingParameters,
+  currentPrice: number,
+  paths: PricePath[] = createPresetPaths(currentPrice),
+  useCompound: boolean = false,
+  startDate: Date = new Date()
+): ScenarioAnalysis {
+  const staking = calculateStakingRewards(params, useCompound);
+  const schedule = generateRewardSchedule(params, useCompound, startDate);
+  
+  // Katkılar da süre sonu bakiyesinde yer aldığı için bugünkü fiyatla baza eklenir
+  const stakedTokens = params.principal + (staking.contributed ?? 0);
+  const sellTodayValue = stakedTokens * currentPrice;
+  
+  // Toplam token değerinin bugün satışa eşit olduğu fiyat
+  const breakEvenPrice = staking.total > 0 ? sellTodayValue / staking.total : 0;
+  const breakEvenChange = currentPrice > 0 ? (breakEvenPrice / currentPrice - 1) * 100 : 0;
+  
+  const scenarios = paths.map(path => {
+    let elapsedDays = 0;
+    const timeline = schedule.map(row => {
+      elapsedDays += row.days;
+      const price = getPriceOnDay(path, currentPrice, elapsedDays, params.days);
+      const tokenBalance = params.principal + row.cumulativeDeposits + row.cumulativeReward;
+      
+      return {
+        date: row.date,
+        price,
+        tokenBalance,
+        fiatValue: tokenBalance * price
+      };
+    });
+    
+    const fiatPrincipal = (staking.total - staking.interest) * path.endPrice;
+    const fiatReward = staking.interest * path.endPrice;
+    const fiatValue = fiatPrincipal + fiatReward;
+    const profitVsSelling = fiatValue - sellTodayValue;
+    
+    return {
+      name: path.name,
+      endPrice: path.endPrice,
+      fiatPrincipal,
+      fiatReward,
+      fiatValue,
+      profitVsSelling,
+      returnPercent: sellTodayValue > 0 ? profitVsSelling / sellTodayValue * 100 : 0,
+      beatsSelling: profitVsSelling >= 0,
+      timeline
+    };
+  });
+  
+  return {
+    currentPrice,
+    sellTodayValue,
+    breakEvenPrice,
+    breakEvenChange,
+    staking,
+    scenarios
+  };
+}
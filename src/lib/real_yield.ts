@@ -0,0 +1,88 @@
+import { StakingParameters, calculateStakingRewards } from './calculators';
+import { getStakingConstraints } from './staking_constraints';
+
+// Reel getiri hesaplaması için tip tanımlamaları
+export interface InflationParameters {
+  inflationRate: number;   // Yıllık token arz enflasyonu (%)
+  stakedRatio: number;     // Stake edilen arzın toplam arza oranı (0-1)
+}
+
+export interface RealYieldResult {
+  nominalApr: number;          // Kullanılan nominal APR (%)
+  nominalApy: number;          // Nominal getirinin yıllıklandırılmış hali (%)
+  inflationRate: number;       // Yıllık arz enflasyonu (%)
+  stakedRatio: number;         // Stake edilen arz oranı (0-1)
+  realApy: number;             // Toplam arzdaki payın yıllık büyümesi (%)
+  shareGrowth: number;         // Süre boyunca arzdaki payın değişimi (%)
+  nonStakerDilution: number;   // Stake etmeyen bir sahibin süre boyunca pay kaybı (%)
+  dilutionShare: number;       // Nominal ödülün yalnızca enflasyonu telafi eden kısmı (%)
+  issuanceImpliedApr: number;  // Tüm ihraç stake edenlere dağıtılsaydı APR (%)
+}
+
+/**
+ * Nominal staking getirisini token arz enflasyonuna göre reel getiriye çevir
+ *
+ * Reel getiri, sahibin toplam arzdaki payının büyümesidir: token bakiyesi
+ * arzla aynı hızda büyüyorsa nominal ödül ne olursa olsun reel getiri sıfırdır.
+ * @param params Staking parametreleri
+ * @param inflation Enflasyon parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Reel getiri sonuçları
+ */
+export function calculateRealYield(
+  params: StakingParameters,
+  inflation: InflationParameters,
+  useCompound: boolean = false
+): RealYieldResult {
+  const { inflationRate, stakedRatio } = inflation;
+  const result = calculateStakingRewards(params, useCompound);
+  const years = params.days / 365;
+  
+  // Süre boyunca stake edenin bakiyesi ve toplam arz ne kadar büyür
+  const balanceGrowth = params.principal > 0 ? result.total / params.principal : 1;
+  const supplyGrowth = Math.pow(1 + inflationRate / 100, years);
+  
+  const shareGrowth = (balanceGrowth / supplyGrowth - 1) * 100;
+  const nominalApy = years > 0 ? (Math.pow(balanceGrowth, 1 / years) - 1) * 100 : 0;
+  const realApy = ((1 + nominalApy / 100) / (1 + inflationRate / 100) - 1) * 100;
+  
+  // Ödülün ne kadarı sadece sulanmayı karşılıyor
+  const dilutionShare = balanceGrowth > 1
+    ? Math.min((supplyGrowth - 1) / (balanceGrowth - 1), 1) * 100
+    : 0;
+  
+  return {
+    nominalApr: result.effectiveApr ?? result.apr,
+    nominalApy,
+    inflationRate,
+    stakedRatio,
+    realApy,
+    shareGrowth,
+    nonStakerDilution: (1 / supplyGrowth - 1) * 100,
+    dilutionShare,
+    issuanceImpliedApr: stakedRatio > 0 ? inflationRate / stakedRatio : 0
+  };
+}
+
+/**
+ * Coin kısıtlamalarındaki enflasyon verisiyle reel getiri hesapla
+ * @param symbol Coin sembolü
+ * @param params Staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Reel getiri sonuçları, enflasyon verisi yoksa null
+ */
+export function getRealYieldForCoin(
+  symbol: string,
+  params: StakingParameters,
+  useCompound: boolean = false
+): RealYieldResult | null {
+  const constraints = getStakingConstraints(symbol);
+  if (!constraints || constraints.inflationRate === undefined || constraints.stakedRatio === undefined) {
+    return null;
+  }
+  
+  return calculateRealYield(params, {
+    inflationRate: constraints.inflationRate,
+    stakedRatio: constraints.stakedRatio
+  }, useCompound);
+}
@@ -0,0 +1,190 @@
+import {
+  AprSegment,
+  StakingParameters,
+  StakingResult,
+  calculateStakingRewards,
+  generateRewardSchedule,
+  getAccruedRate,
+  getContributionDays
+} from './calculators';
+import { YieldPool } from './api/defillama';
+import { getRewardAprFromApy } from './impermanent_loss';
+import { PriceMap, fetchPortfolioPrices } from './portfolio';
+import { getStakingConstraints } from './staking_constraints';
+import { YieldRate, createYieldRate } from './yield_rate';
+
+// Farklı tokenla ödenen ödüller için tip tanımlamaları
+export interface IncentiveStream {
+  symbol: string;    // Ödül tokenı sembolü
+  apr: number;       // Stake edilen değere göre yıllık teşvik oranı (%)
+  aprSchedule?: AprSegment[];  // Değişken teşvik oranı takvimi (verilirse apr yerine kullanılır)
+  price?: number;    // Ödül tokenının fiyatı (verilmezse CoinGecko'dan alınır)
+}
+
+export interface MixedRewardParameters {
+  staking: StakingParameters;     // Stake edilen tokenla ödenen ana ödülün parametreleri
+  stakedSymbol: string;           // Stake edilen token sembolü
+  stakedPrice: number;            // Stake edilen tokenın fiyatı
+  incentives: IncentiveStream[];  // Ek ödül tokenları
+  useCompound?: boolean;          // Ana ödül bileşik mi? (teşvikler hiçbir zaman bileşmez)
+}
+
+export interface TokenRewardBreakdown {
+  symbol: string;        // Ödül tokenı
+  amount: number;        // Kazanılan miktar (token)
+  price: number;         // Kullanılan fiyat (bilinmiyorsa 0)
+  value: number;         // Fiat değer
+  apr: number;           // Stake edilen değere göre yıllık oran (%)
+  compounded: boolean;   // Ödül ana paraya eklendi mi?
+  priceMissing: boolean; // Fiyat bulunamadı mı?
+}
+
+export interface MixedRewardResult {
+  base: StakingResult;                 // Ana ödülün staking sonucu
+  breakdown: TokenRewardBreakdown[];   // Token bazında ödüller (ilk satır ana ödül)
+  totalRewardValue: number;            // Tüm ödüllerin fiat değeri
+  combinedApr: number;                 // Ana ve teşvik APR'larının toplamı (%)
+}
+
+/**
+ * DefiLlama poolunun getirisini stake edilen token ve teşvik tokenlarına ayır
+ *
+ * `apyReward` günlük bileşik APY olarak yayımlanır; ödül tokenlarıyla ödenip
+ * bileşmediği için getRewardAprFromApy ile APR'a çevrilir ve poolun ödül
+ * tokenları arasında eşit bölünür. DefiLlama ödül
+ * tokenlarını kontrat adresiyle verdiği için semboller ayrıca verilebilir.
+ * @param pool DefiLlama yield poolu
+ * @param rewardSymbols rewardTokens sırasıyla ödül tokenı sembolleri
+ * @returns Ana getiri ve teşvik akışları
+ */
+export function splitPoolRewards(
+  pool: YieldPool,
+  rewardSymbols: string[] = []
+): { baseYield: YieldRate; incentives: IncentiveStream[] } {
+  const apyReward = pool.apyReward ?? 0;
+  const baseYield = createYieldRate(pool.apyBase ?? Math.max(pool.apy - apyReward, 0), 'apy');
+  
+  if (apyReward <= 0) {
+    return { baseYield, incentives: [] };
+  }
+  
+  const rewardTokens = pool.rewardTokens && pool.rewardTokens.length > 0 ? pool.rewardTokens : ['REWARD'];
+  return {
+    baseYield,
+    incentives: rewardTokens.map((token, index) => ({
+      symbol: rewardSymbols[index] ?? token,
+      apr: getRewardAprFromApy(apyReward) / rewardTokens.length
+    }))
+  };
+}
+
+/**
+ * Ana ödülün stake edilen tokendan farklı bir tokenla ödenip ödenmediğini kontrol et
+ * @param symbol Coin sembolü
+ * @returns Ödül tokenı farklıysa sembolü, aynıysa null
+ */
+export function getForeignRewardToken(symbol: string): string | null {
+  const rewardType = getStakingConstraints(symbol)?.rewardType;
+  return rewardType && rewardType.toUpperCase() !== symbol.toUpperCase() ? rewardType : null;
+}
+
+// Ana ödül farklı bir tokenla ödeniyorsa onu da bileşmeyen bir teşvik akışına çevir
+function getRewardStreams(params: MixedRewardParameters): { baseParams: StakingParameters; streams: IncentiveStream[] } {
+  const foreignRewardToken = getForeignRewardToken(params.stakedSymbol);
+  if (!foreignRewardToken) {
+    return { baseParams: params.staking, streams: params.incentives };
+  }
+  
+  return {
+    baseParams: { ...params.staking, apr: 0, aprSchedule: undefined },
+    streams: [
+      { symbol: foreignRewardToken, apr: params.staking.apr, aprSchedule: params.staking.aprSchedule },
+      ...params.incentives
+    ]
+  };
+}
+
+/**
+ * Stake edilen token ve ek ödül tokenlarıyla karışık ödül akışını hesapla
+ *
+ * Teşvikler her dönem stake edilen bakiyenin o anki değeri üzerinden birikir
+ * ve ayrı tokenla ödendiği için ana paraya eklenmez. Dönem içindeki katkılar,
+ * ana ödülde olduğu gibi yatırıldıkları günden dönem sonuna kadar kazanır. Bileşik modda ana bakiye
+ * büyüdükçe teşvikler de büyüyen bakiye üzerinden hesaplanır. Kısıtlardaki
+ * rewardType stake edilen tokendan farklıysa ana ödül de teşvik gibi işlenir.
+ * @param params Karışık ödül parametreleri
+ * @param prices Sembol bazında fiyatlar (teşvikin kendi fiyatı önceliklidir)
+ * @returns Token bazında ödüller ve toplam fiat değer
+ */
+export function calculateMixedRewards(params: MixedRewardParameters, prices: PriceMap = {}): MixedRewardResult {
+  const { stakedSymbol, stakedPrice, useCompound = false } = params;
+  const { baseParams, streams } = getRewardStreams(params);
+  const base = calculateStakingRewards(baseParams, useCompound);
+  const rows = generateRewardSchedule(baseParams, useCompound);
+  const contributionDays = baseParams.contributions ? getContributionDays(baseParams.contributions, baseParams.days) : [];
+  const contributionAmount = baseParams.contributions ? baseParams.contributions.amount : 0;
+  
+  const breakdown: TokenRewardBreakdown[] = [{
+    symbol: stakedSymbol,
+    amount: base.interest,
+    price: stakedPrice,
+    value: base.interest * stakedPrice,
+    apr: baseParams.apr,
+    compounded: useCompound,
+    priceMissing: stakedPrice <= 0
+  }];
+  
+  streams.forEach(incentive => {
+    // Teşvik kendi oranını (ve takvimini) kullanır; aktivasyon süresi yine geçerlidir
+    const incentiveParams = { ...baseParams, apr: incentive.apr, aprSchedule: incentive.aprSchedule };
+    let periodStart = 0;
+    let stakedEquivalent = 0;
+    
+    rows.forEach(row => {
+      const periodEnd = periodStart + row.days;
+      stakedEquivalent += row.openingBalance * getAccruedRate(incentiveParams, periodStart, periodEnd);
+      
+      contributionDays
+        .filter(day => day >= periodStart && day < periodEnd)
+        .forEach(day => {
+          stakedEquivalent += contributionAmount * getAccruedRate(incentiveParams, day, periodEnd);
+        });
+      periodStart = periodEnd;
+    });
+    
+    const price = incentive.price ?? prices[incentive.symbol] ?? 0;
+    const value = stakedEquivalent * stakedPrice;
+    
+    breakdown.push({
+      symbol: incentive.symbol,
+      amount: price > 0 ? value / price : 0,
+      price,
+      value,
+      apr: incentive.apr,
+      compounded: false,
+      priceMissing: price <= 0
+    });
+  });
+  
+  return {
+    base,
+    breakdown,
+    totalRewardValue: breakdown.reduce((sum, item) => sum + item.value, 0),
+    combinedApr: breakdown.reduce((sum, item) => sum + item.apr, 0)
+  };
+}
+
+/**
+ * Fiyatı verilmemiş teşvik tokenlarının fiyatlarını CoinGecko'dan alarak hesapla
+ * @param params Karışık ödül parametreleri
+ * @param currency Para birimi
+ * @returns Token bazında ödüller ve toplam fiat değer
+ */
+export async function fetchMixedRewards(params: MixedRewardParameters, currency: string = 'usd'): Promise<MixedRewardResult> {
+  const missingSymbols = getRewardStreams(params).streams
+    .filter(incentive => incentive.price === undefined)
+    .map(incentive => incentive.symbol);
+  const prices = missingSymbols.length > 0 ? await fetchPortfolioPrices(missingSymbols, currency) : {};
+  
+  return calculateMixedRewards(params, prices);
+}
@@ -0,0 +1,116 @@
+import { StakingParameters, StakingResult, calculateStakingRewards } from './calculators';
+import { StakingRisk, getStakingConstraints } from './staking_constraints';
+
+// Risk ayarlı getiri hesaplaması için tip tanımlamaları
+export interface RiskLoss {
+  risk: StakingRisk;
+  probability: number;    // Staking süresi boyunca gerçekleşme olasılığı (0-1)
+  exposure: number;       // Kaybın uygulandığı tutar
+  expectedLoss: number;   // Beklenen kayıp (olasılık * kayıp oranı * tutar)
+}
+
+export interface RiskAdjustedResult {
+  nominal: StakingResult;        // Risksiz varsayımla staking sonucu
+  losses: RiskLoss[];            // Risk bazında beklenen kayıplar
+  expectedLoss: number;          // Toplam beklenen kayıp
+  riskAdjustedReward: number;    // Nominal ödül eksi beklenen kayıp
+  riskAdjustedTotal: number;     // Nominal toplam eksi beklenen kayıp
+}
+
+// Varlıkları platformun saklamasında kalan borsalar
+const CUSTODIAL_PLATFORMS = ['binance', 'kraken', 'coinbase', 'okx', 'bybit', 'kucoin', 'bitfinex', 'gate'];
+
+/**
+ * Platform kaynaklı riskleri getir
+ * @param platformName Platform adı
+ * @returns Platforma özel riskler (borsalarda saklama riski)
+ */
+export function getPlatformRisks(platformName: string): StakingRisk[] {
+  const normalizedName = platformName.toLowerCase();
+  const isCustodial = CUSTODIAL_PLATFORMS.some(exchange => normalizedName.includes(exchange));
+  
+  if (!isCustodial) return [];
+  
+  return [{
+    type: 'custodial',
+    description: `${platformName} iflas, hack veya çekim dondurma riski`,
+    annualProbability: 0.01,
+    lossFraction: 0.5
+  }];
+}
+
+/**
+ * Risklerin staking süresi boyunca beklenen kaybını hesapla
+ *
+ * Yıllık olasılık süreye 1 - (1 - p)^yıl ile ölçeklenir; fonlar çözülme
+ * süresince de risk altında kaldığı için bağlı kalınan gün sayısı kullanılır.
+ * Riskler birbirinden bağımsız kabul edilir ve kayıpları toplanır.
+ * @param risks Riskler
+ * @param result Staking sonucu
+ * @param days Staking süresi (gün)
+ * @returns Risk bazında beklenen kayıplar
+ */
+export function calculateExpectedLosses(risks: StakingRisk[], result: StakingResult, days: number): RiskLoss[] {
+  const years = (result.lockedDays ?? days) / 365;
+  const invested = result.total - result.interest;
+  
+  return risks.map(risk => {
+    const annualProbability = Math.min(Math.max(risk.annualProbability, 0), 1);
+    const probability = 1 - Math.pow(1 - annualProbability, years);
+    const exposure = risk.basis === 'reward' ? result.interest : invested;
+    
+    return {
+      risk,
+      probability,
+      exposure,
+      expectedLoss: probability * risk.lossFraction * exposure
+    };
+  });
+}
+
+/**
+ * Beklenen kayıpları düşerek risk ayarlı ödül hesapla
+ * @param params Staking parametreleri
+ * @param risks Dikkate alınacak riskler
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Nominal ve risk ayarlı sonuçlar
+ */
+export function calculateRiskAdjustedRewards(
+  params: StakingParameters,
+  risks: StakingRisk[],
+  useCompound: boolean = false
+): RiskAdjustedResult {
+  const nominal = calculateStakingRewards(params, useCompound);
+  const losses = calculateExpectedLosses(risks, nominal, params.days);
+  const expectedLoss = losses.reduce((sum, loss) => sum + loss.expectedLoss, 0);
+  
+  return {
+    nominal,
+    losses,
+    expectedLoss,
+    riskAdjustedReward: nominal.interest - expectedLoss,
+    riskAdjustedTotal: nominal.total - expectedLoss
+  };
+}
+
+/**
+ * Coin ve platform risklerine göre risk ayarlı ödül hesapla
+ * @param symbol Coin sembolü
+ * @param platformName Platform adı
+ * @param params Staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @returns Nominal ve risk ayarlı sonuçlar
+ */
+export function getRiskAdjustedRewardsForCoin(
+  symbol: string,
+  platformName: string,
+  params: StakingParameters,
+  useCompound: boolean = false
+): RiskAdjustedResult {
+  const risks = [
+    ...(getStakingConstraints(symbol)?.stakingRisks ?? []),
+    ...getPlatformRisks(platformName)
+  ];
+  
+  return calculateRiskAdjustedRewards(params, risks, useCompound);
+}
@@ -0,0 +1,50 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StakingParameters } from './calculators';
+import { analyzeSensitivity } from './sensitivity';
+
+const START = new Date(2024, 0, 1);
+
+function createStaking(overrides: Partial<StakingParameters> = {}): StakingParameters {
+  return { principal: 100, apr: 10, days: 365, startDate: START, ...overrides };
+}
+
+describe('analyzeSensitivity', () => {
+  it('scales a variable APR schedule instead of replacing it', () => {
+    const staking = createStaking({ aprSchedule: [{ days: 365, apr: 10, endApr: 5, curve: 'linear' }] });
+    const result = analyzeSensitivity({ staking, currentPrice: 1, ranges: { apr: { low: 5, high: 20 } } });
+    const halved = analyzeSensitivity({
+      staking: createStaking({ apr: 5, aprSchedule: [{ days: 365, apr: 5, endApr: 2.5, curve: 'linear' }] }),
+      currentPrice: 1
+    });
+    
+    const apr = result.bars.find(bar => bar.input === 'apr');
+    assert.ok(apr);
+    assert.ok(Math.abs(apr.lowOutcome - halved.baseOutcome) < 1e-9);
+  });
+  
+  it('shows the compounding cycle only for periodic compounding', () => {
+    const hasCycle = (staking: StakingParameters, useCompound: boolean) =>
+      analyzeSensitivity({ staking, currentPrice: 1, useCompound }).bars.some(bar => bar.input === 'compoundingFrequency');
+    
+    assert.equal(hasCycle(createStaking(), true), true);
+    assert.equal(hasCycle(createStaking(), false), false);
+    assert.equal(hasCycle(createStaking({ compoundingMode: 'calendar', calendarPeriod: 'monthly' }), true), false);
+    assert.equal(hasCycle(createStaking({ compoundingMode: 'continuous' }), true), false);
+  });
+  
+  it('uses the given ranges', () => {
+    const result = analyzeSensitivity({
+      staking: createStaking(),
+      currentPrice: 10,
+      ranges: { endPrice: { low: 5, high: 20 } }
+    });
+    
+    const endPrice = result.bars.find(bar => bar.input === 'endPrice');
+    assert.ok(endPrice);
+    assert.equal(endPrice.lowValue, 5);
+    assert.equal(endPrice.highValue, 20);
+    assert.ok(Math.abs(endPrice.highOutcome - result.baseOutcome * 2) < 1e-9);
+  });
+});
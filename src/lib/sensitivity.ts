@@ -0,0 +1,194 @@
+import { AprSegment, StakingParameters } from './calculators';
+import { projectFiatScenarios } from './price_scenarios';
+
+// Duyarlılık analizi için tip tanımlamaları
+export type SensitivityInput = 'apr' | 'days' | 'compoundingFrequency' | 'commission' | 'endPrice';
+
+export interface SensitivityRange {
+  low: number;    // Girdinin alt değeri
+  high: number;   // Girdinin üst değeri
+}
+
+export type SensitivityRanges = Partial<Record<SensitivityInput, SensitivityRange>>;
+
+export interface SensitivityParameters {
+  staking: StakingParameters;   // Baz senaryonun staking parametreleri
+  currentPrice: number;         // Bugünkü fiyat
+  endPrice?: number;            // Baz senaryodaki süre sonu fiyatı (varsayılan: bugünkü fiyat)
+  commission?: number;          // Baz senaryodaki ödül komisyonu (%)
+  useCompound?: boolean;        // Bileşik faiz kullanılacak mı?
+  ranges?: SensitivityRanges;   // Girdi aralıkları (verilmeyenler varsayılan aralıkla)
+}
+
+export interface SensitivityBar {
+  input: SensitivityInput;
+  label: string;          // Girdinin gösterim adı
+  baseValue: number;      // Baz senaryodaki girdi değeri
+  lowValue: number;       // Alt girdi değeri
+  highValue: number;      // Üst girdi değeri
+  lowOutcome: number;     // Alt değerle süre sonu fiat değer
+  highOutcome: number;    // Üst değerle süre sonu fiat değer
+  lowChange: number;      // Alt değerin baz sonuca göre etkisi (fiat)
+  highChange: number;     // Üst değerin baz sonuca göre etkisi (fiat)
+  swing: number;          // Alt ve üst sonuç arasındaki fark (fiat)
+}
+
+export interface SensitivityResult {
+  baseOutcome: number;    // Baz senaryonun süre sonu fiat değeri
+  bars: SensitivityBar[]; // Etkisi büyükten küçüğe girdiler (tornado sırası)
+}
+
+const SENSITIVITY_LABELS: Record<SensitivityInput, string> = {
+  apr: 'APR (%)',
+  days: 'Süre (gün)',
+  compoundingFrequency: 'Bileşik döngüsü (gün)',
+  commission: 'Komisyon (%)',
+  endPrice: 'Bitiş fiyatı'
+};
+
+// Değerlendirilen tek bir girdi seti
+interface SensitivityScenario {
+  staking: StakingParameters;
+  commission: number;
+  endPrice: number;
+}
+
+// APR takviminin tüm segmentlerini aynı oranda ölçekle
+function scaleAprSchedule(schedule: AprSegment[] | undefined, factor: number): AprSegment[] | undefined {
+  return schedule?.map(segment => ({
+    ...segment,
+    apr: segment.apr * factor,
+    endApr: segment.endApr !== undefined ? segment.endApr * factor : undefined
+  }));
+}
+
+// Girdi seti için komisyon sonrası süre sonu fiat değer
+function evaluateScenario(scenario: SensitivityScenario, currentPrice: number, useCompound: boolean): number {
+  // Komisyon her ödülden kesildiği için getiri oranını aynı oranda düşürür
+  const netShare = 1 - scenario.commission / 100;
+  const staking = {
+    ...scenario.staking,
+    apr: scenario.staking.apr * netShare,
+    aprSchedule: scaleAprSchedule(scenario.staking.aprSchedule, netShare)
+  };
+  
+  const analysis = projectFiatScenarios(
+    staking,
+    currentPrice,
+    [{ name: 'sensitivity', endPrice: scenario.endPrice }],
+    useCompound,
+    scenario.staking.startDate
+  );
+  return analysis.scenarios[0].fiatValue;
+}
+
+// Girdinin baz senaryodaki değeri
+function getBaseValue(input: SensitivityInput, base: SensitivityScenario): number {
+  switch (input) {
+    case 'apr':
+      return base.staking.apr;
+    case 'days':
+      return base.staking.days;
+    case 'compoundingFrequency':
+      return base.staking.compoundingFrequency ?? 1;
+    case 'commission':
+      return base.commission;
+    case 'endPrice':
+      return base.endPrice;
+  }
+}
+
+// Bileşik döngüsü yalnızca sabit aralıklı bileşik modda sonucu etkiler
+function hasCompoundingCycle(staking: StakingParameters, useCompound: boolean): boolean {
+  return useCompound && (staking.compoundingMode ?? 'periodic') === 'periodic';
+}
+
+// Baz senaryoda tek bir girdiyi değiştir
+function withInput(base: SensitivityScenario, input: SensitivityInput, value: number): SensitivityScenario {
+  switch (input) {
+    case 'apr': {
+      // Değişken APR takvimi baz APR'a göre ölçeklenir; baz APR sıfırsa oranı korunamaz ve sabit APR kullanılır
+      const aprSchedule = base.staking.apr > 0
+        ? scaleAprSchedule(base.staking.aprSchedule, value / base.staking.apr)
+        : undefined;
+      return { ...base, staking: { ...base.staking, apr: value, aprSchedule } };
+    }
+    case 'days':
+      return { ...base, staking: { ...base.staking, days: Math.max(Math.round(value), 1) } };
+    case 'compoundingFrequency':
+      return { ...base, staking: { ...base.staking, compoundingFrequency: Math.max(Math.round(value), 1) } };
+    case 'commission':
+      return { ...base, commission: Math.min(Math.max(value, 0), 100) };
+    case 'endPrice':
+      return { ...base, endPrice: Math.max(value, 0) };
+  }
+}
+
+/**
+ * Baz değerlerin etrafında varsayılan girdi aralıkları oluştur
+ * @param staking Staking parametreleri
+ * @param endPrice Baz bitiş fiyatı
+ * @param commission Baz komisyon (%)
+ * @returns APR ±%25, süre ±%50, günlükten aylığa bileşik, 0-%20 komisyon ve fiyat ±%50
+ */
+export function createDefaultSensitivityRanges(
+  staking: StakingParameters,
+  endPrice: number,
+  commission: number = 0
+): Record<SensitivityInput, SensitivityRange> {
+  return {
+    apr: { low: staking.apr * 0.75, high: staking.apr * 1.25 },
+    days: { low: Math.max(Math.round(staking.days * 0.5), 1), high: Math.round(staking.days * 1.5) },
+    compoundingFrequency: { low: 1, high: 30 },
+    commission: { low: 0, high: Math.max(commission * 2, 20) },
+    endPrice: { low: endPrice * 0.5, high: endPrice * 1.5 }
+  };
+}
+
+/**
+ * Girdileri tek tek değiştirerek süre sonu fiat değere etkilerini hesapla
+ *
+ * Her girdi diğerleri baz değerde sabitken aralığın alt ve üst ucuna çekilir
+ * (one-at-a-time). Sonuç, komisyon sonrası ödüllerle birlikte token bakiyesinin
+ * bitiş fiyatıyla fiat değeridir. Süre değişirken fiyat yolu aynı bitiş
+ * fiyatına uzanır. Değişken APR takviminde APR girdisi tüm segmentleri aynı
+ * oranda ölçekler. Bileşik döngüsü basit faizde, takvim ve sürekli bileşik
+ * modlarında sonucu etkilemediği için bu modlarda gösterilmez.
+ * @param params Baz senaryo ve girdi aralıkları
+ * @returns Baz sonuç ve etkisi büyükten küçüğe sıralanmış girdiler
+ */
+export function analyzeSensitivity(params: SensitivityParameters): SensitivityResult {
+  const { staking, currentPrice, commission = 0, useCompound = false } = params;
+  const endPrice = params.endPrice ?? currentPrice;
+  const ranges = { ...createDefaultSensitivityRanges(staking, endPrice, commission), ...params.ranges };
+  
+  const base: SensitivityScenario = { staking, commission, endPrice };
+  const baseOutcome = evaluateScenario(base, currentPrice, useCompound);
+  
+  const inputs = (Object.keys(ranges) as SensitivityInput[])
+    .filter(input => input !== 'compoundingFrequency' || hasCompoundingCycle(staking, useCompound));
+  
+  const bars = inputs.map(input => {
+    const { low, high } = ranges[input];
+    const lowOutcome = evaluateScenario(withInput(base, input, low), currentPrice, useCompound);
+    const highOutcome = evaluateScenario(withInput(base, input, high), currentPrice, useCompound);
+    
+    return {
+      input,
+      label: SENSITIVITY_LABELS[input],
+      baseValue: getBaseValue(input, base),
+      lowValue: low,
+      highValue: high,
+      lowOutcome,
+      highOutcome,
+      lowChange: lowOutcome - baseOutcome,
+      highChange: highOutcome - baseOutcome,
+      swing: Math.abs(highOutcome - lowOutcome)
+    };
+  });
+  
+  return {
+    baseOutcome,
+    bars: bars.sort((a, b) => b.swing - a.swing)
+  };
+}
@@ -0,0 +1,47 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createSeededRandom, simulateStakingOutcomes, SimulationParameters } from './simulation';
+
+const params: SimulationParameters = {
+  staking: { principal: 100, apr: 8, days: 365 },
+  useCompound: true,
+  currentPrice: 10,
+  priceVolatility: 60,
+  aprVolatility: 2,
+  runs: 200
+};
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const first = createSeededRandom(7);
+    const second = createSeededRandom(7);
+    const sequence = Array.from({ length: 5 }, () => first());
+    
+    assert.deepEqual(Array.from({ length: 5 }, () => second()), sequence);
+    assert.ok(sequence.every(value => value >= 0 && value < 1));
+  });
+});
+
+describe('simulateStakingOutcomes', () => {
+  it('returns identical percentiles for the same seed', () => {
+    const first = simulateStakingOutcomes({ ...params, seed: 123 });
+    const second = simulateStakingOutcomes({ ...params, seed: 123 });
+    
+    assert.deepEqual(second, first);
+  });
+  
+  it('returns different outcomes for a different seed', () => {
+    const first = simulateStakingOutcomes({ ...params, seed: 123 });
+    const second = simulateStakingOutcomes({ ...params, seed: 124 });
+    
+    assert.notDeepEqual(second.finalFiat, first.finalFiat);
+  });
+  
+  it('keeps percentile bands ordered', () => {
+    const { finalTokens, finalFiat } = simulateStakingOutcomes({ ...params, seed: 123 });
+    
+    assert.ok(finalTokens.p5 <= finalTokens.p50 && finalTokens.p50 <= finalTokens.p95);
+    assert.ok(finalFiat.p5 <= finalFiat.p50 && finalFiat.p50 <= finalFiat.p95);
+  });
+});
@@ -0,0 +1,191 @@
+import { StakingParameters, calculateStakingRewards, getAprForDay, getContributionDays } from './calculators';
+import { CoinGeckoCoin } from './api/coingecko';
+
+// Monte Carlo simülasyonu için tip tanımlamaları
+export interface SimulationParameters {
+  staking: StakingParameters;  // Staking parametreleri (başlangıç APR'ı dahil)
+  useCompound?: boolean;       // Bileşik faiz kullanılacak mı?
+  currentPrice: number;        // Bugünkü token fiyatı
+  priceVolatility: number;     // Yıllık fiyat volatilitesi (%)
+  priceDrift?: number;         // Yıllık beklenen fiyat değişimi (%) (varsayılan: 0)
+  aprVolatility?: number;      // APR'ın yıllık oynaklığı (puan) (varsayılan: 0)
+  runs?: number;               // Simülasyon sayısı (varsayılan: 1000)
+  seed?: number;               // Tekrarlanabilirlik için tohum değeri
+}
+
+export interface PercentileBand {
+  p5: number;    // Kötümser senaryo (%5)
+  p50: number;   // Medyan
+  p95: number;   // İyimser senaryo (%95)
+}
+
+export interface SimulationResult {
+  runs: number;                  // Yapılan simülasyon sayısı
+  seed: number;                  // Kullanılan tohum değeri
+  finalTokens: PercentileBand;   // Süre sonundaki token bakiyesi
+  finalFiat: PercentileBand;     // Süre sonundaki fiat değer
+  effectiveApr: PercentileBand;  // Gerçekleşen ortalama APR (%)
+  meanFiat: number;              // Ortalama fiat değer
+  probabilityBeatsSelling: number;  // Bugün satmaktan iyi sonuç verme olasılığı (0-1)
+}
+
+const DEFAULT_RUNS = 1000;
+const DEFAULT_SEED = 42;
+
+/**
+ * Tohumlanabilir rastgele sayı üreteci (mulberry32)
+ * @param seed Tohum değeri
+ * @returns [0, 1) aralığında sayı üreten fonksiyon
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller ile standart normal dağılımdan örnek al
+function sampleNormal(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Sıralı dizide lineer interpolasyonla yüzdelik değer bul
+function getPercentile(sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === 0) return 0;
+  
+  const index = (sortedValues.length - 1) * percentile / 100;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (index - lower);
+}
+
+function getPercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: getPercentile(sorted, 5),
+    p50: getPercentile(sorted, 50),
+    p95: getPercentile(sorted, 95)
+  };
+}
+
+/**
+ * CoinGecko fiyat değişimlerinden yıllık volatilite tahmini
+ *
+ * 24 saatlik, 7 günlük ve 30 günlük değişimler birer log getiri gözlemi
+ * olarak alınır ve günlük varyansa ölçeklenir. Tek gözleme dayandığı için
+ * kaba bir tahmindir; elle girilen değer her zaman tercih edilebilir.
+ * @param marketData CoinGecko market verisi
+ * @returns Yıllık volatilite (%), hesaplanamazsa null
+ */
+export function estimateVolatility(
+  marketData: Pick<CoinGeckoCoin['market_data'],
+    'price_change_percentage_24h' | 'price_change_percentage_7d' | 'price_change_percentage_30d'>
+): number | null {
+  const observations: [number | null | undefined, number][] = [
+    [marketData.price_change_percentage_24h, 1],
+    [marketData.price_change_percentage_7d, 7],
+    [marketData.price_change_percentage_30d, 30]
+  ];
+  
+  const dailyVariances = observations
+    .filter(([change]) => typeof change === 'number' && !isNaN(change) && change > -100)
+    .map(([change, days]) => {
+      const logReturn = Math.log(1 + (change as number) / 100);
+      return logReturn * logReturn / days;
+    });
+  
+  if (dailyVariances.length === 0) return null;
+  
+  const meanVariance = dailyVariances.reduce((sum, variance) => sum + variance, 0) / dailyVariances.length;
+  return Math.sqrt(meanVariance * 365) * 100;
+}
+
+/**
+ * APR kayması ve fiyat volatilitesiyle staking sonuçlarını simüle et
+ *
+ * APR günlük rastgele yürüyüşle (sıfırın altına inmeden) kayar, fiyat ise
+ * geometrik Brown hareketi izler. Aynı tohumla aynı sonuçlar üretilir.
+ * @param params Simülasyon parametreleri
+ * @returns Yüzdelik bantlar
+ */
+export function simulateStakingOutcomes(params: SimulationParameters): SimulationResult {
+  const {
+    staking,
+    useCompound = false,
+    currentPrice,
+    priceVolatility,
+    priceDrift = 0,
+    aprVolatility = 0,
+    runs = DEFAULT_RUNS,
+    seed = DEFAULT_SEED
+  } = params;
+  
+  const random = createSeededRandom(seed);
+  const years = staking.days / 365;
+  const sigma = priceVolatility / 100;
+  const mu = priceDrift / 100;
+  const dailyAprShock = aprVolatility * Math.sqrt(1 / 365);
+  const dayCount = Math.ceil(staking.days);
+  // Katkılar da süre sonu bakiyesinde yer aldığı için bugünkü fiyatla baza eklenir
+  const contributed = staking.contributions
+    ? getContributionDays(staking.contributions, staking.days).length * staking.contributions.amount
+    : 0;
+  const sellTodayValue = (staking.principal + contributed) * currentPrice;
+  
+  // Rastgele yürüyüşün etrafında döndüğü temel APR yolu tüm çalıştırmalarda aynıdır
+  const baseAprs = Array.from({ length: dayCount }, (_, day) =>
+    staking.aprSchedule && staking.aprSchedule.length > 0
+      ? getAprForDay(staking.aprSchedule, day, staking.days)
+      : staking.apr
+  );
+  
+  const finalTokens: number[] = [];
+  const finalFiat: number[] = [];
+  const effectiveAprs: number[] = [];
+  let beatsSellingCount = 0;
+  
+  for (let run = 0; run < runs; run++) {
+    // APR yolu: temel APR (veya takvim) etrafında günlük rastgele yürüyüş
+    let aprSchedule = staking.aprSchedule;
+    if (dailyAprShock > 0) {
+      let drift = 0;
+      aprSchedule = [];
+      for (let day = 0; day < dayCount; day++) {
+        aprSchedule.push({ days: 1, apr: Math.max(0, baseAprs[day] + drift) });
+        drift += dailyAprShock * sampleNormal(random);
+      }
+    }
+    
+    const result = calculateStakingRewards({ ...staking, aprSchedule }, useCompound);
+    
+    // Süre sonu fiyatı: P * exp((mu - sigma^2 / 2) * t + sigma * sqrt(t) * Z)
+    const endPrice = currentPrice * Math.exp(
+      (mu - sigma * sigma / 2) * years + sigma * Math.sqrt(years) * sampleNormal(random)
+    );
+    
+    const fiatValue = result.total * endPrice;
+    
+    finalTokens.push(result.total);
+    finalFiat.push(fiatValue);
+    effectiveAprs.push(result.effectiveApr ?? result.apr);
+    if (fiatValue >= sellTodayValue) beatsSellingCount++;
+  }
+  
+  return {
+    runs,
+    seed,
+    finalTokens: getPercentileBand(finalTokens),
+    finalFiat: getPercentileBand(finalFiat),
+    effectiveApr: getPercentileBand(effectiveAprs),
+    meanFiat: runs > 0 ? finalFiat.reduce((sum, value) => sum + value, 0) / runs : 0,
+    probabilityBeatsSelling: runs > 0 ? beatsSellingCount / runs : 0
+  };
+}
@@ -1,21 +1,39 @@
+import { YieldRate } from './yield_rate';
+
 // Staking kısıtlamaları ve coin bilgileri için arayüzler
 export interface StakingPeriod {
   name: string;       // Periyot adı (örn: "Flexible", "30 days", vb.)
   minDays: number;    // Minimum stake süresi (gün)
   maxDays: number | null;  // Maksimum stake süresi (gün) (null = sınırsız)
-  apr?: number;       // Bu periyoda özel APR (varsa)
+  yieldRate?: YieldRate;   // Bu periyoda özel getiri oranı (varsa, APR / APY türüyle)
+}
+
+// Stake riski türü
+export type StakingRiskType = 'slashing' | 'smart-contract' | 'custodial' | 'depeg';
+
+export interface StakingRisk {
+  type: StakingRiskType;       // Risk türü
+  description: string;         // Riskin açıklaması
+  annualProbability: number;   // Bir yıl içinde gerçekleşme olasılığı (0-1)
+  lossFraction: number;        // Gerçekleşirse kaybedilen pay (0-1)
+  basis?: 'principal' | 'reward';  // Kaybın uygulandığı tutar (varsayılan: principal)
 }
 
 export interface CoinStakingConstraints {
   symbol: string;            // Coin sembolü
   name: string;              // Coin adı
   minStakeAmount: number;    // Minimum stake edilebilir miktar
+  decimals: number;          // Zincir üzerindeki ondalık basamak sayısı
   unbondingPeriod: number;   // Çözülme süresi (gün)
+  warmupPeriod?: number;     // Ödüllerin başlamasından önceki aktivasyon süresi (gün)
+  epochLengthDays?: number;  // Ödüllerin dağıtıldığı epoch / era uzunluğu (gün)
   stakingPeriods: StakingPeriod[];  // Desteklenen stake süreleri
   notes?: string;            // Ek notlar
   stakingMethod?: string;    // Stake yöntemi (liquid, delegated, vb.)
-  stakingRisks?: string[];   // Stake riskleri
+  stakingRisks?: StakingRisk[];  // Stake riskleri (olasılık ve kayıp oranıyla)
   rewardType?: string;       // Ödül tipi (aynı token, farklı token, vb.)
+  inflationRate?: number;    // Yıllık token arz enflasyonu (%)
+  stakedRatio?: number;      // Stake edilen arzın toplam arza oranı (0-1)
 }
 
 // Desteklenen coinler ve staking kısıtlamaları
@@ -24,91 +42,130 @@ const stakingConstraints: CoinStakingConstraints[] = [
     symbol: "ETH",
     name: "Ethereum",
     minStakeAmount: 0.01,
+    decimals: 18, // 1 ETH = 10^18 wei
     unbondingPeriod: 0, // Liquid staking için sıfır
+    warmupPeriod: 1, // Lido'da ödüller bir sonraki günlük rebase ile başlar
+    epochLengthDays: 1, // stETH bakiyesi günde bir rebase edilir
     stakingPeriods: [
       { name: "Flexible", minDays: 1, maxDays: null }
     ],
     notes: "Liquid staking olarak işletilebilir, bu yüzden çözülme süresi yoktur.",
     stakingMethod: "Liquid Staking",
-    stakingRisks: ["Smart contract riski", "Validator riski"],
-    rewardType: "ETH"
+    stakingRisks: [
+      { type: "smart-contract", description: "Lido kontratlarında açık", annualProbability: 0.01, lossFraction: 0.3 },
+      { type: "slashing", description: "Node operatörlerinin slash edilmesi (havuz geneline yayılır)", annualProbability: 0.05, lossFraction: 0.002 },
+      { type: "depeg", description: "Erken çıkışta stETH'in ETH'ye göre iskontolu satılması", annualProbability: 0.05, lossFraction: 0.03 }
+    ],
+    rewardType: "ETH",
+    inflationRate: 0.7, // İhraç eksi EIP-1559 yakımı, net arz artışı
+    stakedRatio: 0.28
   },
   {
     symbol: "SOL",
     name: "Solana",
     minStakeAmount: 0.1,
+    decimals: 9, // 1 SOL = 10^9 lamport
     unbondingPeriod: 2, // 2-3 gün çözülme
+    warmupPeriod: 2, // Stake bir epoch sonra aktifleşir
+    epochLengthDays: 2, // 432.000 slot, yaklaşık 2-2,5 gün
     stakingPeriods: [
       { name: "Flexible", minDays: 1, maxDays: null }
     ],
-    notes: "Solana'da unstaking süreci 2-3 gün sürer.",
+    notes: "Solana'da unstaking süreci 2-3 gün sürer. Ağ kesintileri ödül dağıtımını geciktirebilir.",
     stakingMethod: "Delegation",
-    stakingRisks: ["Validator riski", "Network durma riski"],
-    rewardType: "SOL"
+    stakingRisks: [
+      { type: "slashing", description: "Validator hatası; protokol düzeyinde slashing henüz yok, ödül kaybı yaşanır", annualProbability: 0.05, lossFraction: 0.5, basis: "reward" }
+    ],
+    rewardType: "SOL",
+    inflationRate: 4.6, // Enflasyon her yıl %15 azalarak %1.5'e iner
+    stakedRatio: 0.65
   },
   {
     symbol: "ADA",
     name: "Cardano",
     minStakeAmount: 5,
+    decimals: 6, // 1 ADA = 10^6 lovelace
     unbondingPeriod: 0, // Anında çekilebilir
+    warmupPeriod: 10, // Delegasyon 2 epoch sonra geçerli olur
+    epochLengthDays: 5, // Ödüller her 5 günlük epoch sonunda hesaba geçer
     stakingPeriods: [
       { name: "Flexible", minDays: 1, maxDays: null }
     ],
     notes: "Cardano'da staking yaparken fonlarınız kilitlenmez, istediğiniz zaman çekebilirsiniz.",
     stakingMethod: "Delegation",
-    stakingRisks: ["Düşük riskli"],
-    rewardType: "ADA"
+    stakingRisks: [], // Slashing yok, fonlar cüzdandan çıkmaz
+    rewardType: "ADA",
+    inflationRate: 1.5, // Rezervden dağıtılan ödüller kadar dolaşım artışı
+    stakedRatio: 0.6
   },
   {
     symbol: "DOT",
     name: "Polkadot",
     minStakeAmount: 1,
+    decimals: 10, // 1 DOT = 10^10 planck
     unbondingPeriod: 28, // 28 gün çözülme süresi
+    warmupPeriod: 1, // Nominasyon bir sonraki era'da aktif olur
+    epochLengthDays: 1, // Ödüller 24 saatlik era başına ödenir
     stakingPeriods: [
       { name: "Bonded", minDays: 28, maxDays: null }
     ],
     notes: "Unbonding süresi 28 gündür ve bu süre içinde ödül alınmaz.",
     stakingMethod: "Bonding",
-    stakingRisks: ["Likidite kilidi", "Slashing riski"],
-    rewardType: "DOT"
+    stakingRisks: [
+      { type: "slashing", description: "Aday gösterilen validatorun slash edilmesi", annualProbability: 0.02, lossFraction: 0.01 }
+    ],
+    rewardType: "DOT",
+    inflationRate: 7.8, // Yılda sabit 120M DOT ihracı
+    stakedRatio: 0.52
   },
   {
     symbol: "AVAX",
     name: "Avalanche",
     minStakeAmount: 1,
+    decimals: 9, // P-Chain üzerinde 1 AVAX = 10^9 nAVAX
     unbondingPeriod: 14, // 14 gün çözülme süresi
     stakingPeriods: [
       { name: "Flexible", minDays: 14, maxDays: 365 }
     ],
     notes: "Avalanche'da stake süresi 14 ile 365 gün arasında değişebilir.",
     stakingMethod: "Delegation",
-    stakingRisks: ["Validator riski", "Likidite kilidi"],
-    rewardType: "AVAX"
+    stakingRisks: [
+      { type: "slashing", description: "Validator çalışma süresi %80'in altına düşerse ödül ödenmez", annualProbability: 0.03, lossFraction: 1, basis: "reward" }
+    ],
+    rewardType: "AVAX",
+    inflationRate: 4.2, // Stake ödülleri için basılan AVAX
+    stakedRatio: 0.55
   },
   {
     symbol: "ATOM",
     name: "Cosmos",
     minStakeAmount: 0.1,
+    decimals: 6, // 1 ATOM = 10^6 uatom
     unbondingPeriod: 21, // 21 gün çözülme süresi
     stakingPeriods: [
       { name: "Bonded", minDays: 21, maxDays: null }
     ],
     notes: "Unbonding süresi 21 gündür ve bu süre içinde ödül alınmaz.",
     stakingMethod: "Delegation",
-    stakingRisks: ["Likidite kilidi", "Slashing riski"],
-    rewardType: "ATOM"
+    stakingRisks: [
+      { type: "slashing", description: "Çift imza (%5) veya uzun kesinti (%0,01) slashing'i", annualProbability: 0.01, lossFraction: 0.05 }
+    ],
+    rewardType: "ATOM",
+    inflationRate: 10, // Enflasyon bağlı oranına göre %7-10 arasında
+    stakedRatio: 0.62
   },
   {
     symbol: "ALGO",
     name: "Algorand",
     minStakeAmount: 1,
+    decimals: 6, // 1 ALGO = 10^6 microAlgo
     unbondingPeriod: 0, // Anında çekilebilir
     stakingPeriods: [
       { name: "Flexible", minDays: 1, maxDays: null }
     ],
     notes: "Algorand stake işlemi anında ve herhangi bir kilitleme olmadan gerçekleşir.",
     stakingMethod: "Participation",
-    stakingRisks: ["Düşük riskli"],
+    stakingRisks: [], // Fonlar cüzdanda kalır, slashing yok
     rewardType: "ALGO"
   }
 ];
@@ -131,6 +188,37 @@ export function getAllStakingConstraints(): CoinStakingConstraints[] {
   return [...stakingConstraints];
 }
 
+/**
+ * Bir coin için hesaplamaya eklenecek aktivasyon ve çözülme sürelerini getir
+ * @param symbol Coin sembolü
+ * @returns Aktivasyon ve çözülme süreleri (gün)
+ */
+export function getLockupDays(symbol: string): { warmupDays: number; unbondingDays: number } {
+  const constraints = getStakingConstraints(symbol);
+  return {
+    warmupDays: constraints?.warmupPeriod ?? 0,
+    unbondingDays: constraints?.unbondingPeriod ?? 0
+  };
+}
+
+/**
+ * Bir coin için ödüllerin dağıtıldığı epoch uzunluğunu getir
+ * @param symbol Coin sembolü
+ * @returns Epoch uzunluğu (gün), bilinmiyorsa undefined
+ */
+export function getEpochLength(symbol: string): number | undefined {
+  return getStakingConstraints(symbol)?.epochLengthDays;
+}
+
+/**
+ * Bir coin için zincir üzerindeki ondalık basamak sayısını getir
+ * @param symbol Coin sembolü
+ * @returns Ondalık basamak sayısı, coin bilinmiyorsa undefined
+ */
+export function getAssetDecimals(symbol: string): number | undefined {
+  return getStakingConstraints(symbol)?.decimals;
+}
+
 /**
  * Bir coin için minimum stake miktarını kontrol et
  * @param symbol Coin sembolü
@@ -0,0 +1,142 @@
+import { YieldPool } from './api/defillama';
+import { FeeParameters, calculateNetYield } from './net_yield';
+import { YieldRate, getPoolYieldRate, normalizeYieldRate } from './yield_rate';
+
+// Katmanlı getiri stratejileri için tip tanımlamaları
+export interface StrategyLeg {
+  name: string;                   // Adım adı (örn: "Lido stake", "Aave stETH supply")
+  yieldRate: YieldRate;           // Adımın getiri oranı (APR / APY türüyle)
+  allocation?: number;            // Önceki adımın pozisyonundan bu adıma aktarılan pay (%) (varsayılan: 100)
+  autoCompound?: boolean;         // Ödüller pozisyona otomatik eklenir mi? (varsayılan: true)
+  compoundingFrequency?: number;  // Bileşik döngüsü (gün) (varsayılan: 1)
+  fees?: FeeParameters;           // Adıma özel ücretler
+  risks?: string[];               // Adımın eklediği riskler
+}
+
+export interface StrategyLegResult {
+  leg: StrategyLeg;
+  exposure: number;      // Bu adımda getiri kazanan miktar
+  apr: number;           // Normalleştirilmiş APR (%)
+  netReward: number;     // Ücretler sonrası ödül
+  netApy: number;        // Adımın kendi pozisyonundaki net APY (%)
+  addedApy: number;      // Adımın ödülünün ana paraya göre basit yıllık karşılığı (%)
+  risks: string[];       // Adımın eklediği riskler
+}
+
+export interface StrategyRisk {
+  leg: string;   // Riski ekleyen adım
+  risk: string;  // Risk açıklaması
+}
+
+export interface StrategyResult {
+  principal: number;          // Başlangıç miktarı
+  days: number;               // Süre (gün)
+  legs: StrategyLegResult[];  // Adım bazında sonuçlar
+  totalReward: number;        // Tüm adımların net ödülü
+  total: number;              // Süre sonundaki toplam (ana para + ödüller)
+  combinedApr: number;        // Adımların ana paraya göre toplam APR'ı (%)
+  combinedApy: number;        // Gerçekleşen toplam büyümenin yıllıklandırılmış hali (%)
+  risks: StrategyRisk[];      // Adım adım eklenen riskler
+}
+
+const LOW_TVL_USD = 1000000;
+
+/**
+ * DefiLlama poolundan strateji adımı oluştur
+ *
+ * Riskler poolun verilerinden türetilir. Getirinin bir kısmı ayrı bir ödül
+ * tokenıyla ödeniyorsa bu kısım pozisyona kendiliğinden eklenmediği için adım
+ * varsayılan olarak bileşiksiz kabul edilir.
+ * @param pool DefiLlama yield poolu
+ * @param overrides Adımın diğer alanları (pay, ücretler vb.)
+ * @returns Strateji adımı
+ */
+export function createStrategyLeg(pool: YieldPool, overrides: Partial<StrategyLeg> = {}): StrategyLeg {
+  const risks = [`${pool.project} akıllı kontrat riski`];
+  
+  if (pool.ilRisk === 'yes') {
+    risks.push(`Geçici kayıp riski${pool.il7d !== undefined ? ` (son 7 gün: %${Math.abs(pool.il7d).toFixed(2)})` : ''}`);
+  }
+  if (pool.exposure === 'multi') {
+    risks.push('Birden fazla varlığa maruziyet');
+  }
+  if (pool.apyReward && pool.apyReward > 0) {
+    risks.push(`Getirinin %${pool.apyReward.toFixed(2)}'lik kısmı token emisyonu; teşvik sona erebilir`);
+  }
+  if (pool.tvlUsd < LOW_TVL_USD) {
+    risks.push(`Düşük likidite (TVL $${(pool.tvlUsd / 1000).toFixed(0)}K)`);
+  }
+  
+  return {
+    name: `${pool.project} ${pool.symbol}`,
+    yieldRate: getPoolYieldRate(pool),
+    autoCompound: !(pool.apyReward && pool.apyReward > 0),
+    risks,
+    ...overrides
+  };
+}
+
+/**
+ * Birbirine bağlı getiri adımlarını tek bir strateji olarak hesapla
+ *
+ * Her adım bir önceki adımın pozisyonunu (örn. stETH) teminat ya da likidite
+ * olarak kullanır; önceki adımların getirisi de devam eder, bu yüzden adımların
+ * getirileri aynı sermaye üzerinde toplanır. Her adımın ödülü kendi içinde
+ * bileşir; bir adımın ödülünün sonraki adımda ayrıca kazanması (örn. rebase ile
+ * gelen stETH'in Aave'de faiz kazanması) hesaba katılmaz, bu yüzden sonuç
+ * temkinli tarafta kalır.
+ * @param principal Başlangıç miktarı
+ * @param days Süre (gün)
+ * @param legs Sırayla uygulanan adımlar
+ * @returns Birleşik getiri ve riskler
+ */
+export function calculateStackedStrategy(principal: number, days: number, legs: StrategyLeg[]): StrategyResult {
+  let exposure = principal;
+  
+  const legResults = legs.map(leg => {
+    exposure *= (leg.allocation ?? 100) / 100;
+    const apr = normalizeYieldRate(leg.yieldRate).apr;
+    const autoCompound = leg.autoCompound ?? true;
+    
+    const result = calculateNetYield({
+      principal: exposure,
+      apr,
+      days,
+      compoundingFrequency: leg.compoundingFrequency ?? 1
+    }, leg.fees ?? {}, autoCompound);
+    
+    return {
+      leg,
+      exposure,
+      apr,
+      netReward: result.netReward,
+      netApy: result.netApy,
+      addedApy: 0,
+      risks: leg.risks ?? []
+    };
+  });
+  
+  const totalReward = legResults.reduce((sum, leg) => sum + leg.netReward, 0);
+  const total = principal + totalReward;
+  const years = days / 365;
+  
+  // Her adımın toplam getiriye katkısı, ödülünün ana paraya oranıyla yıllıklandırılır
+  legResults.forEach(leg => {
+    leg.addedApy = principal > 0 && years > 0 ? leg.netReward / principal / years * 100 : 0;
+  });
+  
+  return {
+    principal,
+    days,
+    legs: legResults,
+    totalReward,
+    total,
+    combinedApr: principal > 0
+      ? legResults.reduce((sum, leg) => sum + leg.apr * leg.exposure, 0) / principal
+      : 0,
+    combinedApy: principal > 0 && years > 0 && total > 0
+      ? (Math.pow(total / principal, 1 / years) - 1) * 100
+      : 0,
+    risks: legResults.flatMap(leg => leg.risks.map(risk => ({ leg: leg.leg.name, risk })))
+  };
+}
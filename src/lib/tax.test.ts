@@ -0,0 +1,85 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  TaxProfile,
+  buildRewardTaxReport,
+  calculateBracketTax,
+  calculateDisposalTax,
+  calculateRewardIncomeTax,
+  createPriceLookup,
+  getTaxProfile
+} from './tax';
+
+const US = getTaxProfile('US') as TaxProfile;
+const DE = getTaxProfile('DE') as TaxProfile;
+
+describe('createPriceLookup', () => {
+  const lookup = createPriceLookup([
+    [new Date(2024, 0, 10).getTime(), 20],
+    [new Date(2024, 0, 1).getTime(), 10]
+  ]);
+  
+  it('uses the last price on or before the date', () => {
+    assert.equal(lookup(new Date(2024, 0, 5)), 10);
+    assert.equal(lookup(new Date(2024, 0, 10)), 20);
+  });
+  
+  it('falls back to the first and last known prices outside the history', () => {
+    assert.equal(lookup(new Date(2023, 11, 1)), 10);
+    assert.equal(lookup(new Date(2025, 0, 1)), 20);
+  });
+  
+  it('rejects an empty history instead of pricing rewards at zero', () => {
+    assert.throws(() => createPriceLookup([]), /Price history is empty/);
+  });
+});
+
+describe('income tax', () => {
+  it('applies brackets progressively', () => {
+    assert.equal(calculateBracketTax(20000, US.incomeBrackets), 11925 * 0.1 + (20000 - 11925) * 0.12);
+  });
+  
+  it('taxes rewards at the marginal rate above other income', () => {
+    assert.ok(Math.abs(calculateRewardIncomeTax(US, 1000, 50000) - 220) < 1e-9);
+  });
+  
+  it('taxes all rewards once the German threshold is reached', () => {
+    assert.equal(calculateRewardIncomeTax(DE, 255, 30000), 0);
+    assert.ok(Math.abs(calculateRewardIncomeTax(DE, 256, 30000) - 256 * 0.24) < 1e-9);
+  });
+});
+
+describe('buildRewardTaxReport', () => {
+  it('splits rewards into tax years at their payout price', () => {
+    const report = buildRewardTaxReport(
+      'ETH',
+      { principal: 100, apr: 10, days: 60, compoundingFrequency: 30, startDate: new Date(2024, 11, 1) },
+      false,
+      date => (date.getFullYear() === 2024 ? 1000 : 2000),
+      US,
+      50000
+    );
+    
+    assert.deepEqual(report.yearly.map(summary => summary.year), [2024, 2025]);
+    assert.ok(Math.abs(report.events[0].fairMarketValue - 100 * 0.1 * 30 / 365 * 1000) < 1e-9);
+    assert.ok(Math.abs(report.totalTax - report.totalIncome * 0.22) < 1e-9);
+    assert.deepEqual(report.events[0].holdingPeriodEnd, new Date(2025, 11, 31));
+  });
+});
+
+describe('calculateDisposalTax', () => {
+  it('separates short and long term lots by the holding period', () => {
+    const report = buildRewardTaxReport(
+      'ETH',
+      { principal: 100, apr: 10, days: 60, compoundingFrequency: 30, startDate: new Date(2024, 0, 1) },
+      false,
+      () => 1000,
+      US
+    );
+    const result = calculateDisposalTax(US, report.events, new Date(2025, 1, 15), 2000, 50000);
+    
+    assert.deepEqual(result.lots.map(lot => lot.longTerm), [true, false]);
+    assert.ok(result.shortTermGain > 0 && result.longTermGain > 0);
+  });
+});
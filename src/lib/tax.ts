@@ -0,0 +1,345 @@
+import { addDays } from 'date-fns';
+import { StakingParameters, generateRewardSchedule } from './calculators';
+import { coinGeckoApi } from './api/coingecko';
+import taxProfiles from './tax_profiles.json';
+
+// Vergi hesaplamaları için tip tanımlamaları
+export interface TaxBracket {
+  upTo: number | null;   // Dilimin üst sınırı (null = sınırsız)
+  rate: number;          // Dilim oranı (%)
+}
+
+export interface TaxProfile {
+  code: string;                     // Ülke kodu
+  name: string;                     // Ülke adı
+  currency: string;                 // Vergi hesaplamasında kullanılan para birimi
+  rewardIncomeTaxable: boolean;     // Ödüller alındığı anda gelir sayılır mı?
+  incomeBrackets: TaxBracket[];     // Yıllık gelir vergisi dilimleri
+  annualExemption: number;          // Yıllık muafiyet tutarı
+  exemptionType: 'allowance' | 'threshold';  // İndirim mi, aşılınca tamamı vergilenen sınır mı?
+  holdingPeriodDays: number | null; // Bu süreden uzun tutulan ödüllerin satışı uzun vadeli sayılır
+  shortTermTaxedAsIncome: boolean;  // Kısa vadeli satış kazancı gelir dilimlerine eklenir mi?
+  longTermRate: number;             // Uzun vadeli satış kazancı oranı (%)
+  notes: string;                    // Kurallarla ilgili açıklama
+}
+
+// Fiyat geçmişinden tarihe göre fiyat döndüren fonksiyon
+export type PriceLookup = (date: Date) => number;
+
+export interface RewardIncomeEvent {
+  date: Date;                     // Ödülün alındığı tarih
+  taxYear: number;                // Vergi yılı
+  amount: number;                 // Ödül miktarı (token)
+  price: number;                  // Alındığı andaki fiyat
+  fairMarketValue: number;        // Alındığı andaki piyasa değeri (gelir)
+  incomeTax: number;              // Bu ödüle düşen gelir vergisi payı
+  holdingPeriodEnd: Date | null;  // Bu tarihten sonraki satış uzun vadeli sayılır
+}
+
+export interface TaxYearSummary {
+  year: number;            // Vergi yılı
+  rewardTokens: number;    // Yıl içinde alınan ödül (token)
+  income: number;          // Ödüllerin toplam piyasa değeri
+  taxableIncome: number;   // Muafiyet sonrası vergilendirilebilir ödül geliri
+  incomeTax: number;       // Ödüllere düşen gelir vergisi
+  effectiveRate: number;   // Ödül gelirine göre efektif oran (%)
+}
+
+export interface RewardTaxReport {
+  profile: TaxProfile;
+  symbol: string;
+  events: RewardIncomeEvent[];   // Ödül bazında defter
+  yearly: TaxYearSummary[];      // Yıllık özet
+  totalIncome: number;
+  totalTax: number;
+}
+
+export interface DisposalLot {
+  event: RewardIncomeEvent;  // Satılan ödül
+  gain: number;              // Satış kazancı (satış değeri - alış anındaki değer)
+  longTerm: boolean;         // Elde tutma süresi doldu mu?
+}
+
+export interface DisposalTaxResult {
+  lots: DisposalLot[];
+  shortTermGain: number;
+  longTermGain: number;
+  tax: number;
+}
+
+/**
+ * Ülke koduna göre vergi profilini getir
+ * @param code Ülke kodu (TR, US, DE)
+ * @returns Vergi profili, bulunamazsa null
+ */
+export function getTaxProfile(code: string): TaxProfile | null {
+  const normalizedCode = code.toUpperCase();
+  return (taxProfiles as TaxProfile[]).find(profile => profile.code === normalizedCode) || null;
+}
+
+/**
+ * Tüm vergi profillerini getir
+ * @returns Vergi profilleri listesi
+ */
+export function getAllTaxProfiles(): TaxProfile[] {
+  return [...(taxProfiles as TaxProfile[])];
+}
+
+/**
+ * Fiyat geçmişinden tarih bazlı fiyat fonksiyonu oluştur
+ *
+ * Verilen tarihte veya öncesindeki son fiyat kullanılır; geçmişin dışındaki
+ * tarihler için ilk veya son bilinen fiyata düşülür. Boş geçmişle ödüller
+ * sıfır değerle sessizce vergisiz görüneceği için hata verilir.
+ * @param prices [zaman damgası (ms), fiyat] listesi
+ * @returns Fiyat fonksiyonu
+ */
+export function createPriceLookup(prices: [number, number][]): PriceLookup {
+  if (prices.length === 0) {
+    throw new Error('Price history is empty');
+  }
+  
+  const sorted = [...prices].sort((a, b) => a[0] - b[0]);
+  
+  return (date: Date) => {
+    const time = date.getTime();
+    let low = 0;
+    let high = sorted.length - 1;
+    
+    // Tarihten önceki son kaydı ikili aramayla bul
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (sorted[mid][0] <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    
+    return sorted[low][1];
+  };
+}
+
+/**
+ * Dilimli vergi hesapla
+ * @param income Yıllık gelir
+ * @param brackets Vergi dilimleri
+ * @returns Vergi tutarı
+ */
+export function calculateBracketTax(income: number, brackets: TaxBracket[]): number {
+  let tax = 0;
+  let lowerBound = 0;
+  
+  for (const bracket of brackets) {
+    if (income <= lowerBound) break;
+    
+    const upperBound = bracket.upTo ?? Infinity;
+    tax += (Math.min(income, upperBound) - lowerBound) * bracket.rate / 100;
+    lowerBound = upperBound;
+  }
+  
+  return tax;
+}
+
+/**
+ * Muafiyet sonrası vergilendirilebilir ödül gelirini bul
+ * @param profile Vergi profili
+ * @param rewardIncome Yıllık ödül geliri
+ * @returns Vergilendirilebilir gelir
+ */
+export function getTaxableRewardIncome(profile: TaxProfile, rewardIncome: number): number {
+  if (!profile.rewardIncomeTaxable) return 0;
+  
+  // Sınır tipinde muafiyet aşılırsa gelirin tamamı vergilenir
+  if (profile.exemptionType === 'threshold') {
+    return rewardIncome < profile.annualExemption ? 0 : rewardIncome;
+  }
+  
+  return Math.max(rewardIncome - profile.annualExemption, 0);
+}
+
+/**
+ * Ödül gelirine düşen vergiyi diğer gelirlerin üzerine ekleyerek hesapla
+ * @param profile Vergi profili
+ * @param rewardIncome Yıllık ödül geliri
+ * @param otherIncome Aynı yıldaki diğer gelirler
+ * @returns Ödül gelirinin yarattığı ek vergi
+ */
+export function calculateRewardIncomeTax(
+  profile: TaxProfile,
+  rewardIncome: number,
+  otherIncome: number = 0
+): number {
+  const taxableIncome = getTaxableRewardIncome(profile, rewardIncome);
+  if (taxableIncome <= 0) return 0;
+  
+  return calculateBracketTax(otherIncome + taxableIncome, profile.incomeBrackets) -
+    calculateBracketTax(otherIncome, profile.incomeBrackets);
+}
+
+/**
+ * Ödül takvimi ve fiyat geçmişinden vergi defteri oluştur
+ *
+ * Her ödül alındığı tarihteki piyasa değeriyle gelir sayılır. Yıllık vergi
+ * marjinal olarak hesaplanır ve ödüllere piyasa değerleri oranında dağıtılır.
+ * @param symbol Coin sembolü
+ * @param params Staking parametreleri (startDate geçmiş bir tarih olabilir)
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @param priceLookup Profil para birimindeki fiyat fonksiyonu
+ * @param profile Vergi profili
+ * @param otherIncome Yıllık diğer gelirler
+ * @returns Ödül defteri ve yıllık özet
+ */
+export function buildRewardTaxReport(
+  symbol: string,
+  params: StakingParameters,
+  useCompound: boolean,
+  priceLookup: PriceLookup,
+  profile: TaxProfile,
+  otherIncome: number = 0
+): RewardTaxReport {
+  const rows = generateRewardSchedule(params, useCompound);
+  
+  const events: RewardIncomeEvent[] = rows
+    .filter(row => row.rewardAccrued > 0)
+    .map(row => {
+      const price = priceLookup(row.date);
+      return {
+        date: row.date,
+        taxYear: row.date.getFullYear(),
+        amount: row.rewardAccrued,
+        price,
+        fairMarketValue: row.rewardAccrued * price,
+        incomeTax: 0,
+        holdingPeriodEnd: profile.holdingPeriodDays !== null
+          ? addDays(row.date, profile.holdingPeriodDays)
+          : null
+      };
+    });
+  
+  // Yıllara göre grupla ve vergiyi ödüllere dağıt
+  const years = Array.from(new Set(events.map(event => event.taxYear))).sort((a, b) => a - b);
+  const yearly = years.map(year => {
+    const yearEvents = events.filter(event => event.taxYear === year);
+    const income = yearEvents.reduce((sum, event) => sum + event.fairMarketValue, 0);
+    const incomeTax = calculateRewardIncomeTax(profile, income, otherIncome);
+    
+    yearEvents.forEach(event => {
+      event.incomeTax = income > 0 ? incomeTax * event.fairMarketValue / income : 0;
+    });
+    
+    return {
+      year,
+      rewardTokens: yearEvents.reduce((sum, event) => sum + event.amount, 0),
+      income,
+      taxableIncome: getTaxableRewardIncome(profile, income),
+      incomeTax,
+      effectiveRate: income > 0 ? incomeTax / income * 100 : 0
+    };
+  });
+  
+  return {
+    profile,
+    symbol,
+    events,
+    yearly,
+    totalIncome: yearly.reduce((sum, summary) => sum + summary.income, 0),
+    totalTax: yearly.reduce((sum, summary) => sum + summary.incomeTax, 0)
+  };
+}
+
+/**
+ * Ödüllerin satışında elde tutma süresine göre vergiyi hesapla
+ * @param profile Vergi profili
+ * @param events Satılan ödüller
+ * @param saleDate Satış tarihi
+ * @param salePrice Satış fiyatı
+ * @param otherIncome Satış yılındaki diğer gelirler (ödül geliri dahil)
+ * @returns Lot bazında kazanç ve toplam vergi
+ */
+export function calculateDisposalTax(
+  profile: TaxProfile,
+  events: RewardIncomeEvent[],
+  saleDate: Date,
+  salePrice: number,
+  otherIncome: number = 0
+): DisposalTaxResult {
+  const lots = events.map(event => ({
+    event,
+    gain: event.amount * salePrice - event.fairMarketValue,
+    longTerm: event.holdingPeriodEnd !== null && saleDate.getTime() > event.holdingPeriodEnd.getTime()
+  }));
+  
+  const shortTermGain = lots.filter(lot => !lot.longTerm).reduce((sum, lot) => sum + lot.gain, 0);
+  const longTermGain = lots.filter(lot => lot.longTerm).reduce((sum, lot) => sum + lot.gain, 0);
+  
+  const shortTermTax = profile.shortTermTaxedAsIncome && shortTermGain > 0
+    ? calculateBracketTax(otherIncome + shortTermGain, profile.incomeBrackets) -
+      calculateBracketTax(otherIncome, profile.incomeBrackets)
+    : 0;
+  const longTermTax = Math.max(longTermGain, 0) * profile.longTermRate / 100;
+  
+  return {
+    lots,
+    shortTermGain,
+    longTermGain,
+    tax: shortTermTax + longTermTax
+  };
+}
+
+/**
+ * CoinGecko geçmiş fiyatlarıyla ödül vergi raporu oluştur
+ *
+ * Geçmiş fiyatlar yalnızca bugüne kadar istenir; bugünden sonraki ödemeler son
+ * bilinen fiyatla, ödemelerin tamamı gelecekteyse bugünkü fiyatla değerlenir.
+ * @param symbol Coin sembolü
+ * @param params Staking parametreleri
+ * @param useCompound Bileşik faiz kullanılacak mı?
+ * @param profileCode Vergi profili kodu
+ * @param otherIncome Yıllık diğer gelirler
+ * @returns Ödül defteri ve yıllık özet
+ */
+export async function fetchRewardTaxReport(
+  symbol: string,
+  params: StakingParameters,
+  useCompound: boolean,
+  profileCode: string,
+  otherIncome: number = 0
+): Promise<RewardTaxReport> {
+  const profile = getTaxProfile(profileCode);
+  if (!profile) {
+    throw new Error(`Unknown tax profile: ${profileCode}`);
+  }
+  
+  const coinId = await coinGeckoApi.getIdFromSymbol(symbol);
+  if (!coinId) {
+    throw new Error(`No CoinGecko id found for ${symbol}`);
+  }
+  
+  const now = new Date();
+  const startDate = params.startDate ?? now;
+  const endDate = addDays(startDate, params.days);
+  
+  let prices: [number, number][] = [];
+  if (startDate < now) {
+    const history = await coinGeckoApi.getPriceHistory(coinId, startDate, endDate < now ? endDate : now, profile.currency);
+    prices = history.prices;
+  }
+  
+  if (prices.length === 0) {
+    const currentPrice = (await coinGeckoApi.getPrices([coinId], profile.currency))[coinId]?.[profile.currency];
+    if (!currentPrice) {
+      throw new Error(`No price data found for ${symbol}`);
+    }
+    prices = [[now.getTime(), currentPrice]];
+  }
+  
+  return buildRewardTaxReport(
+    symbol,
+    { ...params, startDate },
+    useCompound,
+    createPriceLookup(prices),
+    profile,
+    otherIncome
+  );
+}
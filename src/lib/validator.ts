@@ -0,0 +1,204 @@
+import stakingData from './staking_data.json';
+import { getStaticPlatformYieldRate, normalizeYieldRate } from './yield_rate';
+
+// Kendi validatörünü çalıştırma ekonomisi için tip tanımlamaları
+export interface ValidatorProfile {
+  symbol: string;
+  minSelfBond: number;            // Validatör açmak için gereken en az kendi stake (token)
+  chainCostPerDay: number;        // Zincir üzerinde ödenen sabit maliyet (örn. SOL oy ücretleri) (token/gün)
+  downtimePenaltyFactor: number;  // Çevrimdışı kalınan sürede kaçan ödüle ek olarak kesilen ceza oranı
+  acceptsDelegation: boolean;     // Validatör başkalarından delegasyon alıp komisyon kazanabilir mi?
+  notes: string[];                // Validatör açmadan önce bilinmesi gerekenler
+}
+
+export interface ValidatorParameters {
+  symbol: string;             // Coin sembolü
+  selfBond: number;           // Validatöre kendi stake edilen miktar (token)
+  networkApr: number;         // Protokolün stake üzerinden verdiği brüt APR (%)
+  days: number;               // Süre (gün)
+  tokenPrice: number;         // Token fiyatı (fiat)
+  hardwareCost?: number;      // Donanım / kurulum maliyeti (fiat, bir kerelik)
+  hostingCostPerMonth?: number;  // Barındırma, elektrik ve bakım maliyeti (fiat/ay)
+  uptime?: number;            // Çalışma süresi oranı (%) (varsayılan: 99)
+  mevApr?: number;            // MEV ve öncelik ücretlerinden gelen ek getiri (%)
+  delegatedStake?: number;    // Validatöre delege edilen başkalarına ait stake (token)
+  commission?: number;        // Delegatörlerin ödüllerinden alınan komisyon (%)
+}
+
+export interface DelegationComparison {
+  platform: string;       // Delegasyon platformu
+  apr: number;            // Platformun normalleştirilmiş APR'ı (%)
+  reward: number;         // Aynı miktar delege edilseydi kazanılacak ödül (token)
+  rewardValue: number;    // Ödülün fiat değeri
+  netAdvantage: number;   // Validatörün bu platforma göre fazladan kazancı (fiat)
+}
+
+export interface ValidatorResult {
+  profile: ValidatorProfile;
+  effectiveApr: number;       // Çalışma süresi ve cezalar sonrası protokol APR'ı (%)
+  ownReward: number;          // Kendi stake üzerinden ödül (token)
+  commissionIncome: number;   // Delegatörlerden alınan komisyon (token)
+  mevIncome: number;          // MEV ve öncelik ücreti geliri (token)
+  chainCosts: number;         // Zincir üzerinde ödenen maliyetler (token)
+  operatingCosts: number;     // Donanım ve barındırma maliyetleri (fiat)
+  netIncome: number;          // Tüm gelirler eksi maliyetler (fiat)
+  netApr: number;             // Net gelirin kendi stake değerine göre yıllık oranı (%)
+  delegation: DelegationComparison[];  // Platformlara delege etmeyle karşılaştırma
+  paybackDays: number | null; // Donanım maliyetinin en iyi delegasyona göre fazla kazançla geri dönmesi (gün)
+}
+
+// Zincir bazında validatör varsayılanları
+const VALIDATOR_PROFILES: { [symbol: string]: ValidatorProfile } = {
+  ETH: {
+    symbol: "ETH",
+    minSelfBond: 32,
+    chainCostPerDay: 0,
+    downtimePenaltyFactor: 1,
+    acceptsDelegation: false,
+    notes: [
+      "Her validatör için 32 ETH gerekir",
+      "Çevrimdışı kalınan sürede kaçan ödül kadar ceza kesilir",
+      "MEV geliri için MEV-Boost relay kullanımı gerekir"
+    ]
+  },
+  SOL: {
+    symbol: "SOL",
+    minSelfBond: 0,
+    chainCostPerDay: 1.1,
+    downtimePenaltyFactor: 0,
+    acceptsDelegation: true,
+    notes: [
+      "Oy işlemleri günde yaklaşık 1.1 SOL ücret gerektirir",
+      "Oy maliyetini karşılamak için genellikle önemli miktarda delegasyon gerekir",
+      "Jito tip'leri için Jito-Solana istemcisi gerekir"
+    ]
+  },
+  ATOM: {
+    symbol: "ATOM",
+    minSelfBond: 1,
+    chainCostPerDay: 0,
+    downtimePenaltyFactor: 0,
+    acceptsDelegation: true,
+    notes: [
+      "Ödül almak için toplam stake'e göre aktif setteki ilk 180 validatör arasında olunmalıdır",
+      "Uzun süre çevrimdışı kalmak hapis (jail) ve %0.01 kesintiyle sonuçlanır",
+      "Çift imza %5 kesintiyle cezalandırılır"
+    ]
+  }
+};
+
+/**
+ * Coin için validatör profilini getir
+ * @param symbol Coin sembolü
+ * @returns Validatör profili veya desteklenmiyorsa null
+ */
+export function getValidatorProfile(symbol: string): ValidatorProfile | null {
+  return VALIDATOR_PROFILES[symbol.toUpperCase()] ?? null;
+}
+
+/**
+ * Aynı miktarı staking_data.json'daki platformlara delege etmenin getirisini hesapla
+ * @param symbol Coin sembolü
+ * @param amount Delege edilecek miktar (token)
+ * @param days Süre (gün)
+ * @param tokenPrice Token fiyatı
+ * @returns Platform bazında delegasyon getirileri (netAdvantage 0)
+ */
+export function getDelegationAlternatives(
+  symbol: string,
+  amount: number,
+  days: number,
+  tokenPrice: number
+): DelegationComparison[] {
+  const coin = stakingData.find(item => item.symbol.toUpperCase() === symbol.toUpperCase());
+  if (!coin) return [];
+  
+  return coin.platforms.map(platform => {
+    const apr = normalizeYieldRate(getStaticPlatformYieldRate(platform)).apr;
+    const reward = amount * apr / 100 * days / 365;
+    return {
+      platform: platform.name,
+      apr,
+      reward,
+      rewardValue: reward * tokenPrice,
+      netAdvantage: 0
+    };
+  });
+}
+
+/**
+ * Kendi validatörünü çalıştırmanın net getirisini hesapla ve delegasyonla karşılaştır
+ *
+ * Protokol ödülü ve MEV, validatördeki toplam stake üzerinden kazanılır;
+ * validatör kendi payının tamamını, delegatörlerin payından ise komisyonu alır.
+ * Ödüller bileşiksiz kabul edilir. ETH'de çevrimdışı süre hem ödülü kaçırır hem
+ * de yaklaşık aynı miktarda ceza doğurur. Geri ödeme süresi, donanım maliyetinin
+ * en iyi delegasyon seçeneğine göre günlük fazla kazançla karşılanma süresidir.
+ * @param params Validatör parametreleri
+ * @returns Net getiri, delegasyon karşılaştırması ve geri ödeme süresi
+ */
+export function calculateValidatorEconomics(params: ValidatorParameters): ValidatorResult {
+  const {
+    symbol,
+    selfBond,
+    networkApr,
+    days,
+    tokenPrice,
+    hardwareCost = 0,
+    hostingCostPerMonth = 0,
+    uptime = 99,
+    mevApr = 0
+  } = params;
+  const profile = getValidatorProfile(symbol);
+  
+  if (!profile) {
+    throw new Error(`Solo validator economics are not supported for ${symbol}`);
+  }
+  if (selfBond < profile.minSelfBond) {
+    throw new Error(`${profile.symbol} validators require a self-bond of at least ${profile.minSelfBond}`);
+  }
+  
+  const delegatedStake = profile.acceptsDelegation ? params.delegatedStake ?? 0 : 0;
+  const commission = profile.acceptsDelegation ? params.commission ?? 0 : 0;
+  const years = days / 365;
+  const uptimeRatio = Math.min(Math.max(uptime, 0), 100) / 100;
+  
+  // Kaçırılan ödül ve çevrimdışı cezası sonrası protokol getirisi
+  const effectiveApr = networkApr * (uptimeRatio - (1 - uptimeRatio) * profile.downtimePenaltyFactor);
+  const rewardRate = effectiveApr / 100 * years;
+  const mevRate = mevApr * uptimeRatio / 100 * years;
+  
+  const ownReward = selfBond * rewardRate;
+  const commissionIncome = delegatedStake * rewardRate * commission / 100;
+  const mevIncome = (selfBond + delegatedStake * commission / 100) * mevRate;
+  const chainCosts = profile.chainCostPerDay * days;
+  const operatingCosts = hardwareCost + hostingCostPerMonth * 12 * years;
+  
+  const tokenIncome = ownReward + commissionIncome + mevIncome - chainCosts;
+  const netIncome = tokenIncome * tokenPrice - operatingCosts;
+  const selfBondValue = selfBond * tokenPrice;
+  
+  const delegation = getDelegationAlternatives(symbol, selfBond, days, tokenPrice).map(alternative => ({
+    ...alternative,
+    netAdvantage: netIncome - alternative.rewardValue
+  }));
+  
+  // Donanım dışındaki gelir ve giderler süreye yayılır; donanım bu fazlayla geri ödenir
+  const bestDelegationValue = delegation.reduce((best, alternative) => Math.max(best, alternative.rewardValue), 0);
+  const dailyAdvantage = days > 0 ? (netIncome + hardwareCost - bestDelegationValue) / days : 0;
+  const paybackDays = dailyAdvantage > 0 ? hardwareCost / dailyAdvantage : null;
+  
+  return {
+    profile,
+    effectiveApr,
+    ownReward,
+    commissionIncome,
+    mevIncome,
+    chainCosts,
+    operatingCosts,
+    netIncome,
+    netApr: selfBondValue > 0 && years > 0 ? netIncome / selfBondValue / years * 100 : 0,
+    delegation,
+    paybackDays
+  };
+}
@@ -0,0 +1,109 @@
+import { aprToApy, apyToApr } from './calculators';
+import { YieldPool } from './api/defillama';
+
+// Kaynakların yayımladığı oranın türü
+export type YieldRateType = 'apr' | 'apy';
+
+// Türü ve bileşik tabanı bilinen getiri oranı
+export interface YieldRate {
+  value: number;               // Yayımlanan oran (%)
+  type: YieldRateType;         // APR (bileşiksiz) mı, APY (bileşik) mi?
+  compoundingPerYear: number;  // APY'nin varsaydığı / APR'ın ödendiği yıllık döngü sayısı (Infinity = sürekli)
+}
+
+// Hesaplamalarda kullanılacak APR ile gösterimde kullanılacak APY
+export interface NormalizedYield {
+  apr: number;        // Bileşiksiz yıllık oran (%) - calculateStakingRewards'a bu verilir
+  apy: number;        // Kaynağın bileşik tabanında yıllık bileşik getiri (%)
+  source: YieldRate;  // Kaynaktaki orijinal oran
+}
+
+// staking_data.json'daki platform kaydı: oran hangi anahtardaysa o türdedir
+export interface StaticPlatformRate {
+  apr?: number;                 // Platformun APR olarak yayımladığı oran (%)
+  apy?: number;                 // Platformun APY olarak yayımladığı oran (%)
+  compoundingPerYear?: number;  // Yıllık bileşik / ödeme döngüsü sayısı (varsayılan: 365)
+}
+
+const DEFAULT_COMPOUNDING_PER_YEAR = 365;
+
+/**
+ * Getiri oranı oluştur
+ * @param value Oran (%)
+ * @param type APR mı APY mi?
+ * @param compoundingPerYear Yıllık bileşik döngüsü sayısı
+ * @returns Getiri oranı
+ */
+export function createYieldRate(
+  value: number,
+  type: YieldRateType,
+  compoundingPerYear: number = DEFAULT_COMPOUNDING_PER_YEAR
+): YieldRate {
+  return { value, type, compoundingPerYear };
+}
+
+/**
+ * Getiri oranını bileşiksiz APR'a çevir
+ * @param rate Getiri oranı
+ * @returns APR (%)
+ */
+export function getAprFromYieldRate(rate: YieldRate): number {
+  return rate.type === 'apr' ? rate.value : apyToApr(rate.value, rate.compoundingPerYear);
+}
+
+/**
+ * Getiri oranını verilen bileşik tabanında APY'ye çevir
+ * @param rate Getiri oranı
+ * @param compoundingPerYear Hedef yıllık bileşik döngüsü (varsayılan: oranın kendi tabanı)
+ * @returns APY (%)
+ */
+export function getApyFromYieldRate(
+  rate: YieldRate,
+  compoundingPerYear: number = rate.compoundingPerYear
+): number {
+  if (rate.type === 'apy' && compoundingPerYear === rate.compoundingPerYear) {
+    return rate.value;
+  }
+  
+  return aprToApy(getAprFromYieldRate(rate), compoundingPerYear);
+}
+
+/**
+ * Getiri oranını APR / APY çiftine normalleştir
+ * @param rate Getiri oranı
+ * @returns APR ve APY
+ */
+export function normalizeYieldRate(rate: YieldRate): NormalizedYield {
+  return {
+    apr: getAprFromYieldRate(rate),
+    apy: getApyFromYieldRate(rate),
+    source: rate
+  };
+}
+
+/**
+ * DefiLlama poolunun getirisini oran türüyle birlikte al
+ *
+ * DefiLlama `apy` alanını günlük bileşik varsayımıyla APY olarak yayımlar;
+ * bu değer doğrudan APR olarak kullanılırsa bileşik modda iki kez bileşilir.
+ * @param pool DefiLlama yield poolu
+ * @returns Getiri oranı
+ */
+export function getPoolYieldRate(pool: YieldPool): YieldRate {
+  return createYieldRate(pool.apy, 'apy', DEFAULT_COMPOUNDING_PER_YEAR);
+}
+
+/**
+ * Statik platform kaydının getirisini oran türüyle birlikte al
+ * @param platform staking_data.json'daki platform kaydı
+ * @returns Getiri oranı
+ */
+export function getStaticPlatformYieldRate(platform: StaticPlatformRate): YieldRate {
+  const compoundingPerYear = platform.compoundingPerYear ?? DEFAULT_COMPOUNDING_PER_YEAR;
+  
+  if (platform.apy !== undefined) {
+    return createYieldRate(platform.apy, 'apy', compoundingPerYear);
+  }
+  
+  return createYieldRate(platform.apr ?? 0, 'apr', compoundingPerYear);
+}